@@ -0,0 +1,58 @@
+import {
+  compileCalverLayout,
+  parseCalver,
+  isCalver,
+  compareCalver,
+} from '../calver';
+
+describe('calver', () => {
+  describe('compileCalverLayout', () => {
+    it('should collect tokens in layout order', () => {
+      expect(compileCalverLayout('YYYY.MM.DD').tokens).toEqual(['YYYY', 'MM', 'DD']);
+      expect(compileCalverLayout('YY.0M.MICRO').tokens).toEqual(['YY', '0M', 'MICRO']);
+    });
+
+    it('should throw for layouts without tokens', () => {
+      expect(() => compileCalverLayout('X.X')).toThrow('Invalid CalVer layout "X.X"');
+    });
+  });
+
+  describe('parseCalver', () => {
+    it('should parse full-year layouts', () => {
+      expect(parseCalver('2024.10.3', 'YYYY.MM.DD')).toEqual({ values: [2024, 10, 3] });
+      expect(parseCalver('v2024.10.3', 'YYYY.MM.DD')).toEqual({ values: [2024, 10, 3] });
+    });
+
+    it('should normalize short years', () => {
+      expect(parseCalver('24.04', 'YY.0M')).toEqual({ values: [2024, 4] });
+      expect(parseCalver('6.1.0', 'YY.MM.MICRO')).toEqual({ values: [2006, 1, 0] });
+    });
+
+    it('should parse a revision modifier', () => {
+      expect(parseCalver('2025.01.15-1', 'YYYY.0M.0D')).toEqual({
+        values: [2025, 1, 15],
+        modifier: '1',
+      });
+    });
+
+    it('should reject tags that do not fit the layout', () => {
+      expect(parseCalver('2024.13.01', 'YYYY.0M.0D')).toBeNull();
+      expect(parseCalver('24.4', 'YY.0M')).toBeNull();
+      expect(parseCalver('1.2.3', 'YYYY.MM.DD')).toBeNull();
+      expect(isCalver('edge', 'YYYY.MM')).toBe(false);
+    });
+  });
+
+  describe('compareCalver', () => {
+    it('should compare components in layout order', () => {
+      expect(compareCalver('2024.10.3', '2024.9.30', 'YYYY.MM.DD')).toBe(1);
+      expect(compareCalver('23.10', '24.04', 'YY.0M')).toBe(-1);
+      expect(compareCalver('24.04', '24.04', 'YY.0M')).toBe(0);
+    });
+
+    it('should rank revisions above the unrevised version', () => {
+      expect(compareCalver('2025.01.15-1', '2025.01.15', 'YYYY.0M.0D')).toBe(1);
+      expect(compareCalver('2025.01.15-2', '2025.01.15-10', 'YYYY.0M.0D')).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { parseConventionalCommit, analyzeCommits } from '../conventional-commits';
+
+const commit = (message: string, sha: string = 'abc123') => ({ sha, message });
+
+describe('conventional-commits', () => {
+  describe('parseConventionalCommit', () => {
+    it('should parse type, scope and description', () => {
+      expect(parseConventionalCommit(commit('feat(api): add endpoint'))).toEqual({
+        sha: 'abc123',
+        type: 'feat',
+        scope: 'api',
+        description: 'add endpoint',
+        breaking: false,
+      });
+      expect(parseConventionalCommit(commit('Fix: handle empty tags'))).toEqual({
+        sha: 'abc123',
+        type: 'fix',
+        description: 'handle empty tags',
+        breaking: false,
+      });
+    });
+
+    it('should detect breaking changes from "!" and footers', () => {
+      expect(parseConventionalCommit(commit('fix!: drop node 16'))?.breaking).toBe(true);
+      expect(parseConventionalCommit(commit('feat(api)!: rename outputs'))?.breaking).toBe(true);
+      expect(
+        parseConventionalCommit(commit('refactor: new config\n\nBREAKING CHANGE: inputs renamed'))?.breaking
+      ).toBe(true);
+      expect(
+        parseConventionalCommit(commit('refactor: new config\n\nBREAKING-CHANGE: inputs renamed'))?.breaking
+      ).toBe(true);
+    });
+
+    it('should return undefined for non-conventional messages', () => {
+      expect(parseConventionalCommit(commit('Update README'))).toBeUndefined();
+      expect(parseConventionalCommit(commit('Merge branch main'))).toBeUndefined();
+      expect(parseConventionalCommit(commit('feat:missing space'))).toBeUndefined();
+    });
+  });
+
+  describe('analyzeCommits', () => {
+    it('should infer major for breaking changes', () => {
+      expect(analyzeCommits([commit('fix: a'), commit('feat!: b'), commit('feat: c')]).bump).toBe('major');
+    });
+
+    it('should infer minor for features', () => {
+      expect(analyzeCommits([commit('fix: a'), commit('feat: b'), commit('chore: c')]).bump).toBe('minor');
+    });
+
+    it('should infer patch for fixes and performance improvements', () => {
+      expect(analyzeCommits([commit('fix: a'), commit('docs: b')]).bump).toBe('patch');
+      expect(analyzeCommits([commit('perf: a')]).bump).toBe('patch');
+    });
+
+    it('should infer none when no commit warrants a release', () => {
+      expect(analyzeCommits([commit('chore: a'), commit('Update README')]).bump).toBe('none');
+      expect(analyzeCommits([]).bump).toBe('none');
+    });
+
+    it('should group commits by type with non-conventional commits under other', () => {
+      const analysis = analyzeCommits([
+        commit('feat(api): add endpoint', 'sha1'),
+        commit('fix: handle empty tags', 'sha2'),
+        commit('feat: add output', 'sha3'),
+        commit('Update README\n\nMore details', 'sha4'),
+      ]);
+
+      expect(Object.keys(analysis.groups)).toEqual(['feat', 'fix', 'other']);
+      expect(analysis.groups.feat.map((c) => c.sha)).toEqual(['sha1', 'sha3']);
+      expect(analysis.groups.other).toEqual([
+        { sha: 'sha4', type: 'other', description: 'Update README', breaking: false },
+      ]);
+    });
+  });
+});
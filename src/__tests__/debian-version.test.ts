@@ -0,0 +1,69 @@
+import {
+  parseDebianVersion,
+  isDebianVersion,
+  compareDebianPart,
+  compareDebianVersion,
+  getDebianPrerelease,
+} from '../debian-version';
+
+describe('debian-version', () => {
+  describe('parseDebianVersion', () => {
+    it('should parse epoch, upstream version and revision', () => {
+      expect(parseDebianVersion('1:2.30-1')).toEqual({ epoch: 1, upstream: '2.30', revision: '1' });
+      expect(parseDebianVersion('2.30')).toEqual({ epoch: 0, upstream: '2.30', revision: '' });
+      expect(parseDebianVersion('1.0-2-3')).toEqual({ epoch: 0, upstream: '1.0-2', revision: '3' });
+    });
+
+    it('should decode DEP-14 tags', () => {
+      expect(parseDebianVersion('1%2.0_rc1-1')).toEqual({ epoch: 1, upstream: '2.0~rc1', revision: '1' });
+    });
+
+    it('should reject other versions', () => {
+      expect(isDebianVersion('edge')).toBe(false);
+      expect(isDebianVersion('v1.0')).toBe(false);
+      expect(isDebianVersion('2.0~rc1-1')).toBe(true);
+    });
+  });
+
+  describe('compareDebianPart', () => {
+    it('should compare like dpkg', () => {
+      expect(compareDebianPart('1.0~rc1', '1.0')).toBe(-1);
+      expect(compareDebianPart('1.0', '1.0a')).toBe(-1);
+      expect(compareDebianPart('1.0a', '1.0+')).toBe(-1);
+      expect(compareDebianPart('1.10', '1.9')).toBe(1);
+      expect(compareDebianPart('1.01', '1.1')).toBe(0);
+      expect(compareDebianPart('1.0~~', '1.0~')).toBe(-1);
+    });
+  });
+
+  describe('compareDebianVersion', () => {
+    it('should order by epoch, upstream version, then revision', () => {
+      const ordered = ['2.0~rc1-1', '2.0-1', '2.0-2', '2.0+dfsg-1', '1:1.0-1'];
+      for (let i = 1; i < ordered.length; i++) {
+        expect(compareDebianVersion(ordered[i - 1], ordered[i])).toBe(-1);
+        expect(compareDebianVersion(ordered[i], ordered[i - 1])).toBe(1);
+      }
+    });
+
+    it('should order DEP-14 tags like their decoded versions', () => {
+      expect(compareDebianVersion('2.0_rc1-1', '2.0-1')).toBe(-1);
+      expect(compareDebianVersion('1%1.0-1', '2.0-1')).toBe(1);
+    });
+
+    it('should treat non-Debian versions as equal', () => {
+      expect(compareDebianVersion('edge', '1.0')).toBe(0);
+    });
+  });
+
+  describe('getDebianPrerelease', () => {
+    it('should return the upstream version after "~"', () => {
+      expect(getDebianPrerelease('2.0~rc1-3')).toBe('rc1');
+      expect(getDebianPrerelease('2.0_beta2')).toBe('beta2');
+    });
+
+    it('should return undefined for versions without "~" in the upstream version', () => {
+      expect(getDebianPrerelease('2.0-1')).toBeUndefined();
+      expect(getDebianPrerelease('edge')).toBeUndefined();
+    });
+  });
+});
@@ -4,9 +4,26 @@ import {
   isWildcardPattern,
   convertWildcardPatternToRegex,
   isRegexPattern,
+  isGlobPattern,
+  isTemplatePattern,
+  compileTemplatePattern,
+  parseTemplateComponents,
+  convertGlobPatternToRegex,
   matchTagFormat,
   filterTagsByFormat,
+  filterTagsByFormats,
+  matchTagFormatGroups,
+  getTagFormatGroups,
+  getMatchingTagFormat,
+  getFormatPatternKind,
+  splitNegatedPatterns,
+  matchTagFormatDetails,
+  parseRegexPattern,
+  validateFormatPattern,
+  getFormatGroupNames,
+  getAmbiguousGlobWarning,
 } from '../format-matcher';
+import { Logger } from '../logger';
 
 describe('format-matcher', () => {
   describe('isSimplePattern', () => {
@@ -163,7 +180,220 @@ describe('format-matcher', () => {
     });
   });
 
+  describe('getAmbiguousGlobWarning', () => {
+    it('should warn about globs that are also valid regexes', () => {
+      expect(getAmbiguousGlobWarning('v1.?.*')).toContain('"^v1.?.*"');
+      expect(getAmbiguousGlobWarning('[0-9]*.x')).toContain('"glob:[0-9]*.x"');
+      expect(getAmbiguousGlobWarning('!v?1.*')).toContain('Pattern "!v?1.*" is matched as a glob');
+      expect(getAmbiguousGlobWarning('v*-{rc,beta}.*')).toBeDefined();
+    });
+
+    it('should not warn about patterns with a single reading', () => {
+      expect(getAmbiguousGlobWarning('release-*')).toBeUndefined();
+      expect(getAmbiguousGlobWarning('glob:v1.?.*')).toBeUndefined();
+      expect(getAmbiguousGlobWarning('^v1.?.*')).toBeUndefined();
+      expect(getAmbiguousGlobWarning('v{major}.{minor}')).toBeUndefined();
+      expect(getAmbiguousGlobWarning('*.*')).toBeUndefined();
+    });
+  });
+
+  describe('isGlobPattern', () => {
+    it('should detect glob patterns', () => {
+      expect(isGlobPattern('release-*')).toBe(true);
+      expect(isGlobPattern('**/v*')).toBe(true);
+      expect(isGlobPattern('v1.?.*')).toBe(true);
+      expect(isGlobPattern('[0-9]*.x')).toBe(true);
+      expect(isGlobPattern('v*-{rc,beta}.*')).toBe(true);
+      expect(isGlobPattern('glob:v{1,2}.*')).toBe(true);
+    });
+
+    it('should reject regex patterns', () => {
+      expect(isGlobPattern('^v\\d+')).toBe(false);
+      expect(isGlobPattern('/pattern/')).toBe(false);
+      expect(isGlobPattern('[0-9]+')).toBe(false);
+      expect(isGlobPattern('(rc|beta)*')).toBe(false);
+      expect(isGlobPattern('v[0-9]{2,3}')).toBe(false);
+      expect(isGlobPattern('v{1,2}.*')).toBe(false);
+    });
+
+    it('should reject patterns without glob syntax', () => {
+      expect(isGlobPattern('1.2.3')).toBe(false);
+      expect(isGlobPattern('stable')).toBe(false);
+    });
+  });
+
+  describe('convertGlobPatternToRegex', () => {
+    it('should convert * and ? within a path segment', () => {
+      const regex = convertGlobPatternToRegex('release-*');
+      expect(regex.test('release-2024')).toBe(true);
+      expect(regex.test('release-1.2.3')).toBe(true);
+      expect(regex.test('release-a/b')).toBe(false);
+      expect(regex.test('prerelease-1')).toBe(false);
+
+      const single = convertGlobPatternToRegex('v1.?.*');
+      expect(single.test('v1.4.0')).toBe(true);
+      expect(single.test('v1.10.0')).toBe(false);
+      expect(single.test('v1x4.0')).toBe(false); // Dot is literal
+    });
+
+    it('should convert ** across path segments', () => {
+      const regex = convertGlobPatternToRegex('**/v*');
+      expect(regex.test('v1.2.3')).toBe(true);
+      expect(regex.test('charts/v1.2.3')).toBe(true);
+      expect(regex.test('charts/redis/v1.2.3')).toBe(true);
+      expect(regex.test('charts/redis-v1')).toBe(false);
+    });
+
+    it('should convert character classes', () => {
+      const regex = convertGlobPatternToRegex('[0-9]*.x');
+      expect(regex.test('1.x')).toBe(true);
+      expect(regex.test('12.x')).toBe(true);
+      expect(regex.test('v1.x')).toBe(false);
+
+      const negated = convertGlobPatternToRegex('[!v]*');
+      expect(negated.test('1.2.3')).toBe(true);
+      expect(negated.test('v1.2.3')).toBe(false);
+    });
+
+    it('should convert brace alternation', () => {
+      const regex = convertGlobPatternToRegex('v*-{rc,beta}.*');
+      expect(regex.test('v1.2.0-rc.1')).toBe(true);
+      expect(regex.test('v1.2.0-beta.2')).toBe(true);
+      expect(regex.test('v1.2.0-alpha.1')).toBe(false);
+
+      const nested = convertGlobPatternToRegex('{v,release-{a,b}}1');
+      expect(nested.test('v1')).toBe(true);
+      expect(nested.test('release-b1')).toBe(true);
+      expect(nested.test('release-c1')).toBe(false);
+    });
+
+    it('should throw for unclosed braces', () => {
+      expect(() => convertGlobPatternToRegex('v{rc,beta')).toThrow('unclosed "{"');
+    });
+  });
+
+  describe('isTemplatePattern', () => {
+    it('should detect placeholders', () => {
+      expect(isTemplatePattern('{major}.{minor}.{patch}')).toBe(true);
+      expect(isTemplatePattern('{major}.{minor}-{sha:hex8}-ls{build:int}')).toBe(true);
+    });
+
+    it('should not treat glob alternation or regex quantifiers as placeholders', () => {
+      expect(isTemplatePattern('v*-{rc,beta}.*')).toBe(false);
+      expect(isTemplatePattern('^\\d{1,3}$')).toBe(false);
+      expect(isTemplatePattern('X.X')).toBe(false);
+    });
+  });
+
+  describe('compileTemplatePattern', () => {
+    it('should compile placeholders to named groups', () => {
+      const template = compileTemplatePattern('v{major}.{minor}-{sha:hex8}-ls{build}');
+      expect(template.placeholders).toEqual([
+        { name: 'major', type: 'int' },
+        { name: 'minor', type: 'int' },
+        { name: 'sha', type: 'hex', width: 8 },
+        { name: 'build', type: 'int' },
+      ]);
+      expect(template.regex.test('v3.23-bae0df8a-ls3')).toBe(true);
+      expect(template.regex.test('v3.23-bae0df8-ls3')).toBe(false); // sha too short
+      expect(template.regex.test('3.23-bae0df8a-ls3')).toBe(false); // Literal v required
+    });
+
+    it('should default unknown untyped placeholders to str', () => {
+      const template = compileTemplatePattern('{name}-{major}');
+      expect(template.placeholders[0]).toEqual({ name: 'name', type: 'str' });
+      expect(template.regex.test('my-app-2')).toBe(true);
+    });
+
+    it('should reject unknown types and repeated placeholders', () => {
+      expect(() => compileTemplatePattern('{major:float}')).toThrow('unknown placeholder type "float"');
+      expect(() => compileTemplatePattern('{major}.{major}')).toThrow('placeholder "major" is used more than once');
+    });
+
+    it('should reject templates whose placeholders backtrack polynomially', () => {
+      expect(() => compileTemplatePattern('{a}-{b}-{c}x')).toThrow(
+        'Unsafe tag format template "{a}-{b}-{c}x": unbounded quantifiers'
+      );
+      expect(() => compileTemplatePattern('{major}{minor}{patch}')).toThrow('Unsafe tag format template');
+      expect(() => compileTemplatePattern('{name}-{version}')).not.toThrow();
+    });
+  });
+
+  describe('parseTemplateComponents', () => {
+    it('should return typed components', () => {
+      expect(parseTemplateComponents('3.23-bae0df8a-ls3', '{major}.{minor}-{sha:hex8}-ls{build:int}')).toEqual({
+        major: 3,
+        minor: 23,
+        sha: 'bae0df8a',
+        build: 3,
+      });
+    });
+
+    it('should return undefined for tags not matching the template', () => {
+      expect(parseTemplateComponents('edge-e9613ab3-ls213', '{major}.{minor}-{sha:hex8}-ls{build:int}')).toBeUndefined();
+    });
+  });
+
   describe('matchTagFormat', () => {
+    describe('template patterns', () => {
+      it('should match templates against the full tag name', () => {
+        expect(matchTagFormat('3.23-bae0df8a-ls3', '{major}.{minor}-{sha:hex8}-ls{build:int}')).toBe(true);
+        expect(matchTagFormat('3.23', '{major}.{minor}-{sha:hex8}-ls{build:int}')).toBe(false);
+        expect(matchTagFormat('1.2', '{major:float}.{minor}')).toBe(false); // Invalid template
+      });
+
+      it('should expose placeholders as groups', () => {
+        expect(matchTagFormatGroups('3.23-bae0df8a-ls3', '{major}.{minor}-{sha:hex8}-ls{build}')).toEqual({
+          major: '3',
+          minor: '23',
+          sha: 'bae0df8a',
+          build: '3',
+        });
+      });
+    });
+
+    describe('glob patterns', () => {
+      it('should match globs against the full tag name', () => {
+        expect(matchTagFormat('release-2024.05', 'release-*')).toBe(true);
+        expect(matchTagFormat('v1.2-rc.1', 'v*-{rc,beta}.*')).toBe(true);
+        expect(matchTagFormat('api/v2.0.0', '**/v*')).toBe(true);
+        expect(matchTagFormat('edge-e9613ab3-ls213', 'release-*')).toBe(false);
+      });
+
+      it('should match ? as a single character and [...] as a character class', () => {
+        expect(getFormatPatternKind('v1.?.*')).toBe('glob');
+        expect(matchTagFormat('v1.4.0', 'v1.?.*')).toBe(true);
+        expect(matchTagFormat('v1.10.0', 'v1.?.*')).toBe(false);
+        expect(matchTagFormat('v1.42', 'v1.?.*')).toBe(false);
+        expect(getFormatPatternKind('[0-9]*.x')).toBe('glob');
+        expect(matchTagFormat('1.x', '[0-9]*.x')).toBe(true);
+        expect(matchTagFormat('12.x', '[0-9]*.x')).toBe(true);
+        expect(matchTagFormat('a.x', '[0-9]*.x')).toBe(false);
+      });
+
+      it('should read patterns with a glob: prefix as globs', () => {
+        expect(matchTagFormat('v2.0.0', 'glob:v{1,2}.*')).toBe(true);
+        expect(matchTagFormat('v3.0.0', 'glob:v{1,2}.*')).toBe(false);
+      });
+
+      it('should not match invalid globs', () => {
+        expect(matchTagFormat('v1', 'glob:v{1,2')).toBe(false);
+      });
+    });
+
+    describe('negation', () => {
+      it('should match tags the negated pattern does not match', () => {
+        expect(matchTagFormat('v1.2.3', '!glob:*-{rc,beta}*')).toBe(true);
+        expect(matchTagFormat('v1.2.3-rc.1', '!glob:*-{rc,beta}*')).toBe(false);
+        expect(matchTagFormat('edge', '!X.X')).toBe(true);
+        expect(matchTagFormat('3.23', '!X.X')).toBe(false);
+      });
+
+      it('should filter out negated tags', () => {
+        expect(filterTagsByFormat(['v1.0.0', 'v1.1.0-rc.1', 'v1.1.0'], '!*-rc*')).toEqual(['v1.0.0', 'v1.1.0']);
+      });
+    });
+
     describe('wildcard patterns', () => {
       it('should match * pattern with full match', () => {
         expect(matchTagFormat('latest', '*')).toBe(true);
@@ -286,6 +516,28 @@ describe('format-matcher', () => {
         expect(matchTagFormat('1.2.3', '/^v\\d+\\.\\d+\\.\\d+$/')).toBe(false);
       });
 
+      it('should apply flags of slash-delimited patterns', () => {
+        expect(matchTagFormat('V1', '/^V\\d+$/i')).toBe(true);
+        expect(matchTagFormat('v1', '/^V\\d+$/i')).toBe(true);
+        expect(matchTagFormat('v1', '/^V\\d+$/')).toBe(false);
+        expect(matchTagFormat('V1.2', '/^v\\d+/i', 'prefix')).toBe(true);
+      });
+
+      it('should reject unsupported regex flags', () => {
+        expect(() => matchTagFormat('v1', '/^v\\d+$/g')).toThrow(
+          'Invalid regex flags "g" in pattern "/^v\\d+$/g": supported flags are i, m, s, u (each at most once)'
+        );
+        expect(() => matchTagFormat('v1', '/^v\\d+$/ii')).toThrow('Invalid regex flags "ii"');
+      });
+
+      it('should reject regexes prone to catastrophic backtracking', () => {
+        expect(() => matchTagFormat('1.2.3', '^(\\d+\\.?)+$')).toThrow(
+          'Unsafe regex pattern "^(\\d+\\.?)+$": nested quantifier "(\\d+\\.?)+"'
+        );
+        expect(() => filterTagsByFormat(['1.2.3'], '!/^(a+)+$/')).toThrow('Unsafe regex pattern "/^(a+)+$/"');
+        expect(matchTagFormat('v1.2.3', '^v\\d+(?:\\.\\d+)*$')).toBe(true);
+      });
+
       it('should handle invalid regex gracefully', () => {
         expect(matchTagFormat('1.2.3', '[invalid')).toBe(false);
         expect(matchTagFormat('1.2.3', '(unclosed')).toBe(false);
@@ -338,6 +590,72 @@ describe('format-matcher', () => {
     });
   });
 
+  describe('matchTagFormatGroups', () => {
+    const linuxserverFormat = '^(?<upstream>\\d+\\.\\d+)-(?<sha>[0-9a-f]{8})-ls(?<build>\\d+)$';
+
+    it('should return named capture groups of regex patterns', () => {
+      expect(matchTagFormatGroups('3.23-bae0df8a-ls3', linuxserverFormat)).toEqual({
+        upstream: '3.23',
+        sha: 'bae0df8a',
+        build: '3',
+      });
+    });
+
+    it('should return empty strings for groups that did not participate', () => {
+      expect(matchTagFormatGroups('1.2', '^(?<major>\\d+)\\.(?<minor>\\d+)(?:\\.(?<patch>\\d+))?$')).toEqual({
+        major: '1',
+        minor: '2',
+        patch: '',
+      });
+    });
+
+    it('should return an empty object for patterns without named groups', () => {
+      expect(matchTagFormatGroups('3.23', 'X.X')).toEqual({});
+      expect(matchTagFormatGroups('1.2.3', '*.*.*')).toEqual({});
+      expect(matchTagFormatGroups('stable', 'stable')).toEqual({});
+    });
+
+    it('should return groups from prefix matches', () => {
+      expect(matchTagFormatGroups('3.23-bae0df8a-ls3', '^(?<major>\\d+)\\.(?<minor>\\d+)$')).toEqual({
+        major: '3',
+        minor: '23',
+      });
+    });
+
+    it('should return undefined when the tag does not match', () => {
+      expect(matchTagFormatGroups('edge-e9613ab3-ls213', linuxserverFormat)).toBeUndefined();
+      expect(matchTagFormatGroups('3.23', '')).toBeUndefined();
+    });
+  });
+
+  describe('getTagFormatGroups', () => {
+    it('should use the first matching pattern', () => {
+      expect(getTagFormatGroups('v1.2', ['^v(?<full>\\d+\\.\\d+\\.\\d+)$', '^v(?<short>\\d+\\.\\d+)$'])).toEqual({
+        short: '1.2',
+      });
+      expect(getTagFormatGroups('v1.2', ['X.X.X', '^v(?<short>\\d+\\.\\d+)$'])).toEqual({ short: '1.2' });
+    });
+
+    it('should return undefined when no pattern matches', () => {
+      expect(getTagFormatGroups('edge', ['X.X', 'X.X.X'])).toBeUndefined();
+    });
+  });
+
+  describe('getMatchingTagFormat', () => {
+    it('should return the first pattern matching the tag', () => {
+      expect(getMatchingTagFormat('1.2.3', ['X.X.X.X', 'X.X.X', 'X.X'])).toBe('X.X.X');
+      expect(getMatchingTagFormat('3.23', ['X.X.X', 'X.X'], 'strict')).toBe('X.X');
+    });
+
+    it('should skip negated patterns', () => {
+      expect(getMatchingTagFormat('1.2.3', ['!edge', 'X.X.X'])).toBe('X.X.X');
+    });
+
+    it('should return undefined when no pattern matches', () => {
+      expect(getMatchingTagFormat('edge', ['X.X', 'X.X.X'])).toBeUndefined();
+    });
+  });
+
   describe('filterTagsByFormat', () => {
     it('should filter tags by simple pattern', () => {
       const tags = [
@@ -432,5 +750,134 @@ describe('format-matcher', () => {
       expect(filtered).toEqual([]);
     });
   });
-});
 
+  describe('filterTagsByFormats', () => {
+    const tags = ['v1.2.0', '1.3.0', 'v2.0.0-rc.1', 'edge'];
+
+    it('should keep tags matching any pattern in union mode', () => {
+      expect(filterTagsByFormats(tags, ['vX.X.X', 'X.X.X'], 'union')).toEqual(['v1.2.0', '1.3.0', 'v2.0.0-rc.1']);
+    });
+
+    it('should keep tags matching every pattern in all mode', () => {
+      expect(filterTagsByFormats(tags, ['v*.*.*', '*-rc*'], 'all')).toEqual(['v2.0.0-rc.1']);
+      expect(filterTagsByFormats(tags, ['vX.X.X', 'X.X.X'], 'all')).toEqual([]);
+    });
+
+    it('should apply negations to the tags kept by the other patterns', () => {
+      expect(filterTagsByFormats(tags, ['v*.*.*', 'X.X.X', '!*-rc*'], 'union')).toEqual(['v1.2.0', '1.3.0']);
+      expect(filterTagsByFormats(tags, ['!*-rc*', '!edge'], 'union')).toEqual(['v1.2.0', '1.3.0']);
+    });
+  });
+
+  describe('splitNegatedPatterns', () => {
+    it('should separate negations from the other patterns', () => {
+      expect(splitNegatedPatterns(['v*', '!*-rc*', 'X.X', '!'])).toEqual({
+        patterns: ['v*', 'X.X', '!'],
+        negations: ['!*-rc*'],
+      });
+    });
+  });
+
+  describe('match modes', () => {
+    it('should only accept full matches in strict mode', () => {
+      expect(matchTagFormat('3.23-bae0df8a-ls3', 'X.X', 'strict')).toBe(false);
+      expect(matchTagFormat('1.2.3-rc1', 'X.X.X', 'strict')).toBe(false);
+      expect(matchTagFormat('1.2.3', 'X.X.X', 'strict')).toBe(true);
+      expect(matchTagFormat('v1.2', 'v*', 'strict')).toBe(false);
+    });
+
+    it('should accept matches at the start of the tag name in prefix mode', () => {
+      expect(matchTagFormat('3.23.1', 'X.X', 'prefix')).toBe(true);
+      expect(matchTagFormat('3.23-bae0df8a-ls3', 'X.X', 'prefix')).toBe(true);
+      expect(matchTagFormat('1.2.3-rc1', '1.2.*', 'prefix')).toBe(true);
+      expect(matchTagFormat('release-1.2', 'X.X', 'prefix')).toBe(false);
+    });
+
+    it('should keep an explicit $ anchor in prefix mode', () => {
+      expect(matchTagFormat('1.2.3', '^\\d+\\.\\d+$', 'prefix')).toBe(false);
+      expect(matchTagFormat('1.2.3', '^\\d+\\.\\d+', 'prefix')).toBe(true);
+    });
+
+    it('should keep the auto heuristic by default', () => {
+      expect(matchTagFormat('3.23-bae0df8a-ls3', 'X.X')).toBe(true);
+      expect(matchTagFormat('3.23.1', 'X.X')).toBe(false);
+    });
+
+    it('should apply the mode to negated patterns', () => {
+      expect(matchTagFormat('1.2.3-rc1', '!X.X.X', 'strict')).toBe(true);
+      expect(matchTagFormat('1.2.3-rc1', '!X.X.X', 'auto')).toBe(false);
+    });
+  });
+
+  describe('matchTagFormatDetails', () => {
+    it('should report full matches', () => {
+      expect(matchTagFormatDetails('3.23', 'X.X')).toEqual({
+        groups: {},
+        matchedBy: 'full',
+        matchedText: '3.23',
+        kind: 'simple',
+      });
+    });
+
+    it('should report prefix matches with the matched text', () => {
+      const details = matchTagFormatDetails('3.23-bae0df8a-ls3', 'X.X');
+      expect(details?.matchedBy).toBe('prefix');
+      expect(details?.matchedText).toBe('3.23');
+    });
+
+    it('should return undefined when the pattern does not match', () => {
+      expect(matchTagFormatDetails('edge', 'X.X')).toBeUndefined();
+      expect(matchTagFormatDetails('3.23-ls3', 'X.X', 'strict')).toBeUndefined();
+    });
+  });
+
+  describe('filterTagsByFormat logging', () => {
+    it('should log how each matching tag was matched', () => {
+      const logger = { debug: jest.fn() } as unknown as Logger;
+      const filtered = filterTagsByFormat(['3.23', '3.24-ls1', 'edge'], 'X.X', 'auto', logger);
+
+      expect(filtered).toEqual(['3.23', '3.24-ls1']);
+      expect(logger.debug).toHaveBeenCalledWith('Tag "3.23" matches "X.X" (auto mode: full match)');
+      expect(logger.debug).toHaveBeenCalledWith('Tag "3.24-ls1" matches "X.X" (auto mode: prefix match on "3.24")');
+      expect(logger.debug).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('parseRegexPattern', () => {
+    it('should split slash-delimited patterns into source and flags', () => {
+      expect(parseRegexPattern('/^V\\d+$/i')).toEqual({ source: '^V\\d+$', flags: 'i' });
+      expect(parseRegexPattern('/^v\\d+$/')).toEqual({ source: '^v\\d+$', flags: '' });
+    });
+
+    it('should return other patterns unchanged', () => {
+      expect(parseRegexPattern('^v\\d+$')).toEqual({ source: '^v\\d+$', flags: '' });
+    });
+  });
+
+  describe('getFormatGroupNames', () => {
+    it('should list regex named groups and template placeholders', () => {
+      expect(getFormatGroupNames('^(?<upstream>\\d+\\.\\d+)-ls(?<build>\\d+)$')).toEqual(['upstream', 'build']);
+      expect(getFormatGroupNames('/^v(?<json>\\d+)$/i')).toEqual(['json']);
+      expect(getFormatGroupNames('{major}.{minor}-ls{build}')).toEqual(['major', 'minor', 'build']);
+    });
+
+    it('should return no groups for other patterns', () => {
+      expect(getFormatGroupNames('X.X')).toEqual([]);
+      expect(getFormatGroupNames('^v\\(?<x>\\d+\\)$')).toEqual([]);
+      expect(getFormatGroupNames('release-*')).toEqual([]);
+    });
+  });
+
+  describe('validateFormatPattern', () => {
+    it('should reject unsafe regexes, including negated ones', () => {
+      expect(() => validateFormatPattern('^(a+)+$')).toThrow('Unsafe regex pattern');
+      expect(() => validateFormatPattern('!^(a+)+$')).toThrow('Unsafe regex pattern');
+    });
+
+    it('should accept other patterns', () => {
+      expect(() => validateFormatPattern('X.X')).not.toThrow();
+      expect(() => validateFormatPattern('release-*')).not.toThrow();
+      expect(() => validateFormatPattern('[invalid')).not.toThrow();
+    });
+  });
+});
@@ -90,12 +90,19 @@ describe('format-parser', () => {
       it('should throw error for comma-separated with all empty patterns', () => {
         expect(() => parseTagFormat(',,')).toThrow('Comma-separated tag_format must contain at least one non-empty pattern');
         expect(() => parseTagFormat('   ,   ')).toThrow('Comma-separated tag_format must contain at least one non-empty pattern');
+        expect(() => parseTagFormat(',', 'tag_name')).toThrow('Comma-separated tag_name must contain at least one non-empty pattern');
       });
 
       it('should handle single comma-separated value', () => {
         expect(parseTagFormat('X.X,')).toEqual(['X.X']);
         expect(parseTagFormat(',X.X')).toEqual(['X.X']);
       });
+
+      it('should keep commas inside braces, brackets and parentheses', () => {
+        expect(parseTagFormat('v*-{rc,beta}*,X.X')).toEqual(['v*-{rc,beta}*', 'X.X']);
+        expect(parseTagFormat('^\\d{1,3}$,*.*')).toEqual(['^\\d{1,3}$', '*.*']);
+        expect(parseTagFormat('[a,b]*, (x|y),X.X')).toEqual(['[a,b]*', '(x|y)', 'X.X']);
+      });
     });
 
     describe('edge cases', () => {
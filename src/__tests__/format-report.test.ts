@@ -0,0 +1,88 @@
+import { buildFormatReport, getFormatReportTable } from '../format-report';
+
+describe('format-report', () => {
+  const tags = ['3.23', '3.24-bae0df8a-ls3', '1.2.3', 'edge', 'v2.0.0'];
+
+  describe('buildFormatReport', () => {
+    it('should report matches per pattern with the deciding branch', () => {
+      const report = buildFormatReport(tags, ['X.X.X', 'X.X']);
+
+      expect(report.totalTags).toBe(5);
+      expect(report.patterns[0]).toEqual({
+        pattern: 'X.X.X',
+        kind: 'simple',
+        matchCount: 1,
+        branches: { simple: 1 },
+        matched: [{ tag: '1.2.3', branch: 'simple' }],
+        unmatched: ['3.23', '3.24-bae0df8a-ls3', 'edge', 'v2.0.0'],
+      });
+      expect(report.patterns[1].branches).toEqual({ simple: 1, prefix: 1 });
+      expect(report.patterns[1].matched).toEqual([
+        { tag: '3.23', branch: 'simple' },
+        { tag: '3.24-bae0df8a-ls3', branch: 'prefix' },
+      ]);
+    });
+
+    it('should report the pattern selected in fallback mode', () => {
+      const report = buildFormatReport(tags, ['vX.X.X.X', 'vX.X.X', 'X.X']);
+
+      expect(report.patterns[0].matchCount).toBe(0);
+      expect(report.selectedPattern).toBe('vX.X.X');
+      expect(report.matchCount).toBe(1);
+    });
+
+    it('should apply negations to the pattern selected in fallback mode', () => {
+      const report = buildFormatReport(tags, ['!3.24*', 'X.X']);
+
+      expect(report.selectedPattern).toBe('X.X');
+      expect(report.matchCount).toBe(1);
+    });
+
+    it('should count tags kept by the combined patterns in union and all modes', () => {
+      expect(buildFormatReport(tags, ['X.X.X', 'vX.X.X'], 'union').matchCount).toBe(2);
+      expect(buildFormatReport(tags, ['X.X.X', 'vX.X.X'], 'all').matchCount).toBe(0);
+      expect(buildFormatReport(tags, ['X.X.X', 'vX.X.X'], 'union').selectedPattern).toBeUndefined();
+    });
+
+    it('should apply the match mode', () => {
+      const report = buildFormatReport(tags, ['X.X'], 'fallback', 'strict');
+      expect(report.patterns[0].matchCount).toBe(1);
+      expect(report.matchMode).toBe('strict');
+    });
+
+    it('should detect pattern kinds', () => {
+      const patterns = ['*.*', 'glob:v*-{rc,beta}', '^v\\d+', 'edge', '!edge', '{major}.{minor}', '(unclosed'];
+      const report = buildFormatReport(tags, patterns);
+      expect(report.patterns.map((pattern) => pattern.kind)).toEqual([
+        'wildcard',
+        'glob',
+        'regex',
+        'literal',
+        'negation',
+        'template',
+        'invalid',
+      ]);
+    });
+
+    it('should limit the samples', () => {
+      const report = buildFormatReport(tags, ['X.X.X'], 'fallback', 'auto', 2);
+      expect(report.patterns[0].unmatched).toEqual(['3.23', '3.24-bae0df8a-ls3']);
+    });
+  });
+
+  describe('getFormatReportTable', () => {
+    it('should build a header and a row per pattern', () => {
+      const rows = getFormatReportTable(buildFormatReport(['1.2', '<b>'], ['X.X']));
+
+      expect(rows).toHaveLength(2);
+      expect(rows[1]).toEqual([
+        '<code>X.X</code> (selected)',
+        'simple',
+        '1 / 2',
+        'simple: 1',
+        '<code>1.2</code> (simple)',
+        '<code>&lt;b&gt;</code>',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { resolveItems, getPreviousItem } from '../item-resolution';
+import { parseTagFormat } from '../format-parser';
+import { ItemInfo, ItemType } from '../types';
+
+describe('item-resolution', () => {
+  const resolved: Record<string, string> = { latest: 'v1.4.0', previous: 'v1.3.0' };
+  const resolveName = jest.fn(async (tagName: string) => resolved[tagName.toLowerCase()] ?? tagName);
+  const fetchItem = jest.fn(
+    async (name: string): Promise<ItemInfo> => ({
+      exists: name !== 'v9.9.9',
+      name,
+      item_sha: `sha-${name}`,
+      item_type: ItemType.TAG,
+      commit_sha: `commit-${name}`,
+      details: '',
+      verified: false,
+      is_draft: false,
+      is_prerelease: false,
+    })
+  );
+
+  beforeEach(() => {
+    resolveName.mockClear();
+    fetchItem.mockClear();
+  });
+
+  describe('resolveItems', () => {
+    it('should resolve every requested name, keyed by requested name in input order', async () => {
+      const items = await resolveItems(['latest', 'v1.2.0', 'v9.9.9'], resolveName, fetchItem);
+
+      expect([...items.keys()]).toEqual(['latest', 'v1.2.0', 'v9.9.9']);
+      expect(items.get('latest')?.resolvedName).toBe('v1.4.0');
+      expect(items.get('latest')?.info.item_sha).toBe('sha-v1.4.0');
+      expect(items.get('v9.9.9')?.info.exists).toBe(false);
+    });
+
+    it('should resolve and fetch repeated names once', async () => {
+      const items = await resolveItems(['latest', 'latest'], resolveName, fetchItem);
+
+      expect(items.size).toBe(1);
+      expect(resolveName).toHaveBeenCalledTimes(1);
+      expect(fetchItem).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an empty list', async () => {
+      await expect(resolveItems([], resolveName, fetchItem)).rejects.toThrow('tag_name has no entries');
+    });
+  });
+
+  describe('getPreviousItem', () => {
+    it('should find "previous" anywhere in a parsed tag_name list', async () => {
+      for (const input of ['previous', '["latest","previous"]', 'latest,previous', 'v1.2.0, Previous']) {
+        const items = await resolveItems(parseTagFormat(input, 'tag_name') ?? [], resolveName, fetchItem);
+        expect(getPreviousItem(items)?.resolvedName).toBe('v1.3.0');
+      }
+    });
+
+    it('should return undefined when "previous" was not requested', async () => {
+      const items = await resolveItems(['latest', 'v1.2.0'], resolveName, fetchItem);
+
+      expect(getPreviousItem(items)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  JobSummary,
+  getCandidatesTable,
+  getCommitUrl,
+  getItemUrl,
+  getItemsTable,
+  getRepositoryWebUrl,
+} from '../job-summary';
+import { ItemInfo, ItemType, Platform } from '../types';
+
+describe('job-summary', () => {
+  const tagInfo: ItemInfo = {
+    exists: true,
+    name: 'v1.2.0',
+    item_sha: 'abcdef1234567890',
+    item_type: ItemType.TAG,
+    commit_sha: '1234567890abcdef',
+    details: 'Release <1.2.0>',
+    verified: true,
+    is_draft: false,
+    is_prerelease: false,
+  };
+
+  describe('getRepositoryWebUrl', () => {
+    it('should map public API hosts to their web hosts', () => {
+      expect(getRepositoryWebUrl(Platform.GITHUB, 'https://api.github.com', 'owner', 'repo')).toBe(
+        'https://github.com/owner/repo'
+      );
+      expect(getRepositoryWebUrl(Platform.BITBUCKET, 'https://api.bitbucket.org/2.0', 'team', 'repo')).toBe(
+        'https://bitbucket.org/team/repo'
+      );
+    });
+
+    it('should strip the API path of self-hosted instances', () => {
+      expect(getRepositoryWebUrl(Platform.GITHUB, 'https://ghe.example.com/api/v3', 'owner', 'repo')).toBe(
+        'https://ghe.example.com/owner/repo'
+      );
+      expect(getRepositoryWebUrl(Platform.GITEA, 'https://git.example.com:3000/api/v1', 'owner', 'repo')).toBe(
+        'https://git.example.com:3000/owner/repo'
+      );
+    });
+
+    it('should return undefined without a base URL or repository', () => {
+      expect(getRepositoryWebUrl(Platform.GITHUB, undefined, 'owner', 'repo')).toBeUndefined();
+      expect(getRepositoryWebUrl(Platform.GITHUB, 'https://api.github.com', '', '')).toBeUndefined();
+      expect(getRepositoryWebUrl(Platform.GITHUB, 'not a url', 'owner', 'repo')).toBeUndefined();
+    });
+  });
+
+  describe('getCommitUrl and getItemUrl', () => {
+    const repositoryUrl = 'https://example.com/owner/repo';
+
+    it('should build platform specific links', () => {
+      expect(getCommitUrl(Platform.GITHUB, repositoryUrl, 'abc')).toBe(`${repositoryUrl}/commit/abc`);
+      expect(getCommitUrl(Platform.BITBUCKET, repositoryUrl, 'abc')).toBe(`${repositoryUrl}/commits/abc`);
+      expect(getItemUrl(Platform.GITHUB, repositoryUrl, 'tags', 'v1.0.0')).toBe(`${repositoryUrl}/tree/v1.0.0`);
+      expect(getItemUrl(Platform.GITEA, repositoryUrl, 'tags', 'v1.0.0')).toBe(`${repositoryUrl}/src/tag/v1.0.0`);
+      expect(getItemUrl(Platform.GITEA, repositoryUrl, 'release', 'v1.0.0')).toBe(
+        `${repositoryUrl}/releases/tag/v1.0.0`
+      );
+    });
+
+    it('should encode tag names per path segment', () => {
+      expect(getItemUrl(Platform.GITHUB, repositoryUrl, 'tags', 'charts/redis-v1.0.0+1')).toBe(
+        `${repositoryUrl}/tree/charts/redis-v1.0.0%2B1`
+      );
+    });
+
+    it('should not link local repositories', () => {
+      expect(getCommitUrl('local', repositoryUrl, 'abc')).toBeUndefined();
+      expect(getItemUrl('local', repositoryUrl, 'tags', 'v1.0.0')).toBeUndefined();
+    });
+  });
+
+  describe('getItemsTable', () => {
+    const summary: JobSummary = {
+      repository: 'owner/repo',
+      platform: Platform.GITHUB,
+      repositoryUrl: 'https://github.com/owner/repo',
+      itemType: 'tags',
+      items: [
+        { requested: 'latest', resolvedName: 'v1.2.0', info: tagInfo },
+        { requested: 'v9.9.9', resolvedName: 'v9.9.9', info: { ...tagInfo, exists: false, name: 'v9.9.9' } },
+      ],
+    };
+
+    it('should list requested and resolved names with linked SHAs and flags', () => {
+      const [header, row, missing] = getItemsTable(summary);
+
+      expect(header).toHaveLength(8);
+      expect(row).toEqual([
+        '<code>latest</code>',
+        '<a href="https://github.com/owner/repo/tree/v1.2.0"><code>v1.2.0</code></a>',
+        'tag',
+        '<a href="https://github.com/owner/repo/commit/1234567890abcdef"><code>1234567</code></a>',
+        '<code>abcdef1</code>',
+        'yes',
+        'no',
+        'no',
+      ]);
+      expect(missing.slice(0, 2)).toEqual(['<code>v9.9.9</code>', '<code>v9.9.9</code> (not found)']);
+    });
+
+    it('should not link items of local repositories', () => {
+      const [, row] = getItemsTable({ ...summary, platform: 'local', repositoryUrl: undefined });
+      expect(row[1]).toBe('<code>v1.2.0</code>');
+    });
+  });
+
+  describe('getCandidatesTable', () => {
+    it('should list the newest candidates', () => {
+      const candidates = ['1.3.0', '1.2.0', '1.1.0'].map((version) => ({ name: `v${version}`, date: '', version }));
+      const rows = getCandidatesTable(candidates, 2);
+
+      expect(rows).toHaveLength(3);
+      expect(rows[1]).toEqual(['1', '<code>v1.3.0</code>', '<code>1.3.0</code>', '']);
+      expect(rows[2][1]).toBe('<code>v1.2.0</code>');
+    });
+  });
+});
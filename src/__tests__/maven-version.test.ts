@@ -0,0 +1,74 @@
+import { parseMavenVersion, isMavenVersion, compareMavenVersion, getMavenPrerelease } from '../maven-version';
+
+describe('maven-version', () => {
+  describe('parseMavenVersion', () => {
+    it('should split numbers and qualifiers', () => {
+      expect(parseMavenVersion('1.0-beta-2')).toEqual([1, 0, 'beta', 2]);
+      expect(parseMavenVersion('2.0RC1')).toEqual([2, 0, 'rc', 1]);
+      expect(parseMavenVersion('v1.0-SNAPSHOT')).toEqual([1, 0, 'snapshot']);
+    });
+
+    it('should resolve aliases and shorthands', () => {
+      expect(parseMavenVersion('1.0.0.RELEASE')).toEqual([1, 0, 0, '']);
+      expect(parseMavenVersion('1.0-CR2')).toEqual([1, 0, 'rc', 2]);
+      expect(parseMavenVersion('1.0a1')).toEqual([1, 0, 'alpha', 1]);
+      expect(parseMavenVersion('1.0-m3')).toEqual([1, 0, 'milestone', 3]);
+      expect(parseMavenVersion('1.0-a')).toEqual([1, 0, 'a']);
+    });
+
+    it('should reject tags not starting with a number', () => {
+      expect(isMavenVersion('release-1.0')).toBe(false);
+      expect(isMavenVersion('1.0-SNAPSHOT')).toBe(true);
+    });
+  });
+
+  describe('compareMavenVersion', () => {
+    it('should order qualifiers', () => {
+      const ordered = [
+        '1.0-alpha-1',
+        '1.0-beta-2',
+        '1.0-beta-10',
+        '1.0-M1',
+        '1.0-RC1',
+        '1.0-SNAPSHOT',
+        '1.0',
+        '1.0-sp1',
+        '1.0-zeta',
+        '1.0.1',
+      ];
+      for (let i = 1; i < ordered.length; i++) {
+        expect(compareMavenVersion(ordered[i - 1], ordered[i])).toBe(-1);
+        expect(compareMavenVersion(ordered[i], ordered[i - 1])).toBe(1);
+      }
+    });
+
+    it('should treat release aliases and trailing zeros as equal', () => {
+      expect(compareMavenVersion('1.0', '1.0.0')).toBe(0);
+      expect(compareMavenVersion('1.0.0.RELEASE', '1.0.0')).toBe(0);
+      expect(compareMavenVersion('1.0-ga', '1.0-final')).toBe(0);
+    });
+
+    it('should compare numbers numerically', () => {
+      expect(compareMavenVersion('1.10', '1.9')).toBe(1);
+    });
+
+    it('should treat non-Maven versions as equal', () => {
+      expect(compareMavenVersion('edge', '1.0')).toBe(0);
+    });
+  });
+
+  describe('getMavenPrerelease', () => {
+    it('should return the first qualifier sorting before the release', () => {
+      expect(getMavenPrerelease('1.0-beta-2')).toBe('beta');
+      expect(getMavenPrerelease('2.0RC1')).toBe('rc');
+      expect(getMavenPrerelease('1.0-SNAPSHOT')).toBe('snapshot');
+      expect(getMavenPrerelease('1.0-m3')).toBe('milestone');
+    });
+
+    it('should return undefined for releases and qualifiers sorting after them', () => {
+      expect(getMavenPrerelease('1.0.0.RELEASE')).toBeUndefined();
+      expect(getMavenPrerelease('1.0-sp1')).toBeUndefined();
+      expect(getMavenPrerelease('1.0-jre')).toBeUndefined();
+    });
+  });
+});
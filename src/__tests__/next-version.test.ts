@@ -0,0 +1,37 @@
+import { getNextVersions } from '../next-version';
+
+describe('next-version', () => {
+  describe('getNextVersions', () => {
+    it('should keep the v prefix', () => {
+      expect(getNextVersions('v1.2.3')).toEqual({
+        major: 'v2.0.0',
+        minor: 'v1.3.0',
+        patch: 'v1.2.4',
+        prerelease: 'v1.2.4-0',
+      });
+    });
+
+    it('should work without a prefix', () => {
+      expect(getNextVersions('1.2.4-rc.1')).toEqual({
+        major: '2.0.0',
+        minor: '1.3.0',
+        patch: '1.2.4',
+        prerelease: '1.2.4-rc.2',
+      });
+    });
+
+    it('should keep component prefixes', () => {
+      expect(getNextVersions('api@1.4.2', ['api@', 'api/', 'api-'])?.patch).toBe('api@1.4.3');
+      expect(getNextVersions('api/v1.4.2', ['api@', 'api/', 'api-'])?.minor).toBe('api/v1.5.0');
+      expect(getNextVersions('charts/redis-v2.1.0', ['charts/redis-v'])?.major).toBe(
+        'charts/redis-v3.0.0'
+      );
+    });
+
+    it('should return undefined for non-semver tags', () => {
+      expect(getNextVersions('3.23')).toBeUndefined();
+      expect(getNextVersions('release-2024')).toBeUndefined();
+      expect(getNextVersions('web@1.0.0', ['api@'])).toBeUndefined();
+    });
+  });
+});
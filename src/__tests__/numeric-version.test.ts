@@ -0,0 +1,94 @@
+import {
+  parseNumericVersion,
+  isNumericVersion,
+  compareNumericVersionParts,
+  compareNumericVersion,
+  getNumericPrerelease,
+} from '../numeric-version';
+
+describe('numeric-version', () => {
+  describe('parseNumericVersion', () => {
+    it('should parse any number of dot-separated integers', () => {
+      expect(parseNumericVersion('3')).toEqual({ numbers: [3] });
+      expect(parseNumericVersion('3.23')).toEqual({ numbers: [3, 23] });
+      expect(parseNumericVersion('v1.2.3.4')).toEqual({ numbers: [1, 2, 3, 4] });
+    });
+
+    it('should parse suffixes', () => {
+      expect(parseNumericVersion('3.23-bae0df8a-ls3')).toEqual({ numbers: [3, 23], suffix: 'bae0df8a-ls3' });
+      expect(parseNumericVersion('1.2.3.4-beta.1')).toEqual({ numbers: [1, 2, 3, 4], suffix: 'beta.1' });
+      expect(parseNumericVersion('2.0rc1')).toEqual({ numbers: [2, 0], suffix: 'rc1' });
+    });
+
+    it('should ignore build metadata', () => {
+      expect(parseNumericVersion('1.2+build.5')).toEqual({ numbers: [1, 2] });
+    });
+
+    it('should reject non-numeric versions', () => {
+      expect(parseNumericVersion('edge')).toBeNull();
+      expect(parseNumericVersion('release-1.2')).toBeNull();
+      expect(parseNumericVersion('1.2.')).toBeNull();
+      expect(parseNumericVersion('')).toBeNull();
+    });
+  });
+
+  describe('isNumericVersion', () => {
+    it('should accept numeric and semver versions', () => {
+      expect(isNumericVersion('3.22')).toBe(true);
+      expect(isNumericVersion('v1.2.3-rc.1')).toBe(true);
+      expect(isNumericVersion('latest')).toBe(false);
+    });
+  });
+
+  describe('compareNumericVersionParts', () => {
+    it('should compare numbers component by component', () => {
+      expect(compareNumericVersionParts({ numbers: [3, 23] }, { numbers: [3, 9] })).toBe(1);
+      expect(compareNumericVersionParts({ numbers: [1, 2, 3, 4] }, { numbers: [1, 2, 3, 5] })).toBe(-1);
+    });
+
+    it('should treat missing components as 0', () => {
+      expect(compareNumericVersionParts({ numbers: [3, 23] }, { numbers: [3, 23, 0] })).toBe(0);
+      expect(compareNumericVersionParts({ numbers: [3, 23] }, { numbers: [3, 23, 1] })).toBe(-1);
+    });
+  });
+
+  describe('compareNumericVersion', () => {
+    it('should order 3.9 before 3.22 and 3.23', () => {
+      expect(compareNumericVersion('3.22', '3.9')).toBe(1);
+      expect(compareNumericVersion('3.9', '3.23')).toBe(-1);
+    });
+
+    it('should rank a suffixed version below the plain version', () => {
+      expect(compareNumericVersion('1.2.3.4-rc1', '1.2.3.4')).toBe(-1);
+      expect(compareNumericVersion('1.2.3.4', '1.2.3.4-rc1')).toBe(1);
+    });
+
+    it('should compare suffixes like semver prereleases', () => {
+      expect(compareNumericVersion('2.0-rc.10', '2.0-rc.2')).toBe(1);
+      expect(compareNumericVersion('2.0-alpha', '2.0-beta')).toBe(-1);
+    });
+
+    it('should match semver precedence for semver tags', () => {
+      expect(compareNumericVersion('v1.10.0', '1.9.0')).toBe(1);
+      expect(compareNumericVersion('1.0.0-rc.1', '1.0.0')).toBe(-1);
+      expect(compareNumericVersion('1.0.0+build.1', '1.0.0')).toBe(0);
+    });
+
+    it('should treat non-numeric versions as equal', () => {
+      expect(compareNumericVersion('edge', '1.2')).toBe(0);
+    });
+  });
+
+  describe('getNumericPrerelease', () => {
+    it('should return a suffix that is not only numbers', () => {
+      expect(getNumericPrerelease('3.23-rc1')).toBe('rc1');
+      expect(getNumericPrerelease('2.0beta')).toBe('beta');
+    });
+
+    it('should return undefined without a suffix or with a numeric one', () => {
+      expect(getNumericPrerelease('3.23')).toBeUndefined();
+      expect(getNumericPrerelease('3.23-1')).toBeUndefined();
+      expect(getNumericPrerelease('edge')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { getEnvVariableName, isExportedOutput } from '../outputs';
+
+describe('outputs', () => {
+  describe('getEnvVariableName', () => {
+    it('should prefix and upper-case the output name', () => {
+      expect(getEnvVariableName('UPSTREAM_', 'commit_sha')).toBe('UPSTREAM_COMMIT_SHA');
+      expect(getEnvVariableName('upstream_', 'name')).toBe('UPSTREAM_NAME');
+      expect(getEnvVariableName('', 'version')).toBe('VERSION');
+    });
+
+    it('should replace characters not allowed in variable names', () => {
+      expect(getEnvVariableName('APP_', 'match_build-id')).toBe('APP_MATCH_BUILD_ID');
+    });
+  });
+
+  describe('isExportedOutput', () => {
+    it('should export scalar outputs', () => {
+      expect(isExportedOutput('commit_sha')).toBe(true);
+      expect(isExportedOutput('next_version')).toBe(true);
+      expect(isExportedOutput('match_build')).toBe(true);
+    });
+
+    it('should not export JSON, list and multi-line outputs', () => {
+      for (const name of ['details', 'item_json', 'items_json', 'tags_json', 'match_json', 'commits_json', 'format_report']) {
+        expect(isExportedOutput(name)).toBe(false);
+      }
+    });
+  });
+});
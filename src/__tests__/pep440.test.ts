@@ -0,0 +1,92 @@
+import { parsePep440, isPep440, comparePep440, getPep440Prerelease } from '../pep440';
+
+describe('pep440', () => {
+  describe('parsePep440', () => {
+    it('should parse release, epoch and local versions', () => {
+      expect(parsePep440('1.2.0')).toEqual({ epoch: 0, release: [1, 2, 0] });
+      expect(parsePep440('2!1.0')).toEqual({ epoch: 2, release: [1, 0] });
+      expect(parsePep440('v1.0+ubuntu.1')).toEqual({ epoch: 0, release: [1, 0], local: 'ubuntu.1' });
+    });
+
+    it('should parse pre, post and development releases', () => {
+      expect(parsePep440('1.2.0rc1')).toEqual({ epoch: 0, release: [1, 2, 0], pre: { phase: 'rc', number: 1 } });
+      expect(parsePep440('1.2.0.post1')).toEqual({ epoch: 0, release: [1, 2, 0], post: 1 });
+      expect(parsePep440('1.2.0.dev3')).toEqual({ epoch: 0, release: [1, 2, 0], dev: 3 });
+      expect(parsePep440('1.0a1.post2.dev3')).toEqual({
+        epoch: 0,
+        release: [1, 0],
+        pre: { phase: 'a', number: 1 },
+        post: 2,
+        dev: 3,
+      });
+    });
+
+    it('should normalize alternative spellings', () => {
+      expect(parsePep440('1.0-alpha.2')?.pre).toEqual({ phase: 'a', number: 2 });
+      expect(parsePep440('1.0.preview')?.pre).toEqual({ phase: 'rc', number: 0 });
+      expect(parsePep440('1.0c3')?.pre).toEqual({ phase: 'rc', number: 3 });
+      expect(parsePep440('1.0-1')?.post).toBe(1);
+      expect(parsePep440('1.0.rev')?.post).toBe(0);
+    });
+
+    it('should reject other versions', () => {
+      expect(isPep440('edge')).toBe(false);
+      expect(isPep440('1.0-SNAPSHOT')).toBe(false);
+      expect(isPep440('1.0rc1')).toBe(true);
+    });
+  });
+
+  describe('comparePep440', () => {
+    it('should order development, pre, final and post releases', () => {
+      const ordered = [
+        '1.2.0.dev1',
+        '1.2.0a1',
+        '1.2.0b2',
+        '1.2.0rc1.dev1',
+        '1.2.0rc1',
+        '1.2.0',
+        '1.2.0.post1.dev1',
+        '1.2.0.post1',
+      ];
+      for (let i = 1; i < ordered.length; i++) {
+        expect(comparePep440(ordered[i - 1], ordered[i])).toBe(-1);
+        expect(comparePep440(ordered[i], ordered[i - 1])).toBe(1);
+      }
+    });
+
+    it('should compare epochs first', () => {
+      expect(comparePep440('2!0.1', '1!9.0')).toBe(1);
+      expect(comparePep440('1!0.1', '9.0')).toBe(1);
+    });
+
+    it('should ignore trailing zeros in the release', () => {
+      expect(comparePep440('1.0', '1.0.0')).toBe(0);
+      expect(comparePep440('1.10', '1.9')).toBe(1);
+    });
+
+    it('should sort local versions after the public version', () => {
+      expect(comparePep440('1.0+local.1', '1.0')).toBe(1);
+      expect(comparePep440('1.0+abc.5', '1.0+abc')).toBe(1);
+      expect(comparePep440('1.0+5', '1.0+abc')).toBe(1);
+    });
+
+    it('should treat non-PEP 440 versions as equal', () => {
+      expect(comparePep440('edge', '1.0')).toBe(0);
+    });
+  });
+
+  describe('getPep440Prerelease', () => {
+    it('should return the pre-release or development release segment', () => {
+      expect(getPep440Prerelease('1.2.0a1')).toBe('a1');
+      expect(getPep440Prerelease('1.2.0-beta.2')).toBe('b2');
+      expect(getPep440Prerelease('1.2.0rc2.dev1')).toBe('rc2');
+      expect(getPep440Prerelease('1.2.0.dev3')).toBe('dev3');
+    });
+
+    it('should return undefined for final and post-releases', () => {
+      expect(getPep440Prerelease('1.2.0')).toBeUndefined();
+      expect(getPep440Prerelease('1.2.0.post1')).toBeUndefined();
+      expect(getPep440Prerelease('edge')).toBeUndefined();
+    });
+  });
+});
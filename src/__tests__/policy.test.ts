@@ -0,0 +1,99 @@
+import { ItemPolicy, assertPolicySupported, getPolicyViolations } from '../policy';
+import { ItemInfo, ItemType, Platform } from '../types';
+import { createSortStrategy } from '../sort-strategies';
+
+describe('policy', () => {
+  const noPolicy: ItemPolicy = {
+    failIfMissing: false,
+    requireAnnotated: false,
+    requireVerified: false,
+    forbidDraft: false,
+    forbidPrerelease: false,
+  };
+  const allGates: ItemPolicy = {
+    failIfMissing: true,
+    requireAnnotated: true,
+    requireVerified: true,
+    forbidDraft: true,
+    forbidPrerelease: true,
+  };
+  const annotatedTag: ItemInfo = {
+    exists: true,
+    name: 'v1.0.0',
+    item_sha: 'abc',
+    item_type: ItemType.TAG,
+    commit_sha: 'def',
+    details: 'Release 1.0.0',
+    verified: true,
+    is_draft: false,
+    is_prerelease: false,
+  };
+
+  describe('getPolicyViolations', () => {
+    it('should pass items meeting every gate', () => {
+      expect(getPolicyViolations(annotatedTag, allGates, 'tag')).toEqual([]);
+    });
+
+    it('should ignore disabled gates', () => {
+      const info = { ...annotatedTag, item_type: ItemType.COMMIT, verified: false, is_prerelease: true };
+      expect(getPolicyViolations(info, noPolicy, 'tag')).toEqual([]);
+      expect(getPolicyViolations({ ...info, exists: false }, noPolicy, 'tag')).toEqual([]);
+    });
+
+    it('should report a missing item only for fail_if_missing', () => {
+      const missing = { ...annotatedTag, exists: false, item_type: ItemType.COMMIT, verified: false };
+      expect(getPolicyViolations(missing, allGates, 'tag')).toEqual(['Tag "v1.0.0" does not exist (fail_if_missing)']);
+    });
+
+    it('should report lightweight and unverified tags', () => {
+      const lightweight = { ...annotatedTag, item_type: ItemType.COMMIT, verified: false };
+      expect(getPolicyViolations(lightweight, allGates, 'tag')).toEqual([
+        'Tag "v1.0.0" is a lightweight tag, not an annotated tag (require_annotated)',
+        'Tag "v1.0.0" does not have a verified signature (require_verified)',
+      ]);
+    });
+
+    it('should report draft and prerelease releases', () => {
+      const release = { ...annotatedTag, item_type: ItemType.RELEASE, is_draft: true, is_prerelease: true };
+      const policy = { ...noPolicy, forbidDraft: true, forbidPrerelease: true };
+      expect(getPolicyViolations(release, policy, 'release')).toEqual([
+        'Release "v1.0.0" is a draft (forbid_draft)',
+        'Release "v1.0.0" is a prerelease (forbid_prerelease)',
+      ]);
+    });
+
+    it('should report tags with a semver prerelease version', () => {
+      const policy = { ...noPolicy, forbidPrerelease: true };
+      const rcTag = { ...annotatedTag, name: 'v1.1.0-rc.1' };
+      expect(getPolicyViolations(rcTag, policy, 'tag')).toEqual([
+        'Tag "v1.1.0-rc.1" is a prerelease (forbid_prerelease)',
+      ]);
+      expect(getPolicyViolations({ ...rcTag, name: 'api@1.1.0-rc.1' }, policy, 'tag', '1.1.0-rc.1')).toHaveLength(1);
+      expect(getPolicyViolations(annotatedTag, policy, 'tag')).toEqual([]);
+    });
+
+    it('should report prerelease versions of the given version scheme', () => {
+      const policy = { ...noPolicy, forbidPrerelease: true };
+      const pepTag = { ...annotatedTag, name: '1.2.0a1' };
+      expect(getPolicyViolations(pepTag, policy, 'tag')).toEqual([]);
+      expect(getPolicyViolations(pepTag, policy, 'tag', '1.2.0a1', createSortStrategy('pep440'))).toEqual([
+        'Tag "1.2.0a1" is a prerelease (forbid_prerelease)',
+      ]);
+      expect(getPolicyViolations(pepTag, policy, 'tag', '3.23-rc1', createSortStrategy('numeric'))).toHaveLength(1);
+    });
+  });
+
+  describe('assertPolicySupported', () => {
+    it('should reject require_verified on Bitbucket', () => {
+      expect(() => assertPolicySupported(allGates, Platform.BITBUCKET)).toThrow(
+        'require_verified is not available on Bitbucket'
+      );
+      expect(() => assertPolicySupported({ ...allGates, requireVerified: false }, Platform.BITBUCKET)).not.toThrow();
+    });
+
+    it('should accept every gate on GitHub and Gitea', () => {
+      expect(() => assertPolicySupported(allGates, Platform.GITHUB)).not.toThrow();
+      expect(() => assertPolicySupported(allGates, Platform.GITEA)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  findNestedQuantifier,
+  findOverlappingAlternatives,
+  findOverlappingQuantifiers,
+  assertSafeRegex,
+} from '../regex-safety';
+
+describe('regex-safety', () => {
+  describe('findNestedQuantifier', () => {
+    it('should find repeated groups containing repeated atoms', () => {
+      expect(findNestedQuantifier('^(a+)+$')).toBe('(a+)+');
+      expect(findNestedQuantifier('^(\\d+\\.?)*$')).toBe('(\\d+\\.?)*');
+      expect(findNestedQuantifier('^((ab)+)+$')).toBe('((ab)+)+');
+      expect(findNestedQuantifier('^(x+){2}$')).toBe('(x+){2}');
+    });
+
+    it('should accept repetitions separated by a fixed delimiter', () => {
+      expect(findNestedQuantifier('^v\\d+(?:\\.\\d+)*$')).toBeUndefined();
+      expect(findNestedQuantifier('^v(\\d+\\.)+\\d+$')).toBeUndefined();
+      expect(findNestedQuantifier('^([a-z]+-)*[a-z]+$')).toBeUndefined();
+    });
+
+    it('should reject delimiters the repeated atoms can also match', () => {
+      expect(findNestedQuantifier('^(.*-)+$')).toBe('(.*-)+');
+      expect(findNestedQuantifier('^(a+a)+$')).toBe('(a+a)+');
+      expect(findNestedQuantifier('^(?:-(?:a-)+)+$')).toBe('(?:-(?:a-)+)+');
+      expect(findNestedQuantifier('^(a+A)+$')).toBeUndefined();
+      expect(findNestedQuantifier('^(a+A)+$', 'i')).toBe('(a+A)+');
+    });
+
+    it('should accept regexes without nested quantifiers', () => {
+      expect(findNestedQuantifier('^v\\d+$')).toBeUndefined();
+      expect(findNestedQuantifier('^(?<major>\\d+)\\.(?<minor>\\d+)$')).toBeUndefined();
+      expect(findNestedQuantifier('^(a+)?$')).toBeUndefined();
+      expect(findNestedQuantifier('^(a|b)+$')).toBeUndefined();
+    });
+
+    it('should ignore quantifiers inside character classes and escapes', () => {
+      expect(findNestedQuantifier('^[(a+)+]$')).toBeUndefined();
+      expect(findNestedQuantifier('^\\(a+\\)+$')).toBeUndefined();
+    });
+  });
+
+  describe('findOverlappingAlternatives', () => {
+    it('should find repeated groups whose alternatives can start with the same character', () => {
+      expect(findOverlappingAlternatives('^(\\w|\\d)+$')).toBe('(\\w|\\d)+');
+      expect(findOverlappingAlternatives('^(a|a)+$')).toBe('(a|a)+');
+      expect(findOverlappingAlternatives('^(\\d|\\d\\d)+$')).toBe('(\\d|\\d\\d)+');
+      expect(findOverlappingAlternatives('^(?:x?a|a)*$')).toBe('(?:x?a|a)*');
+    });
+
+    it('should treat groups inside a repetition as repeated', () => {
+      expect(findOverlappingAlternatives('^((a|ab)c)+$')).toBe('(a|ab)');
+    });
+
+    it('should accept alternatives starting with distinct characters', () => {
+      expect(findOverlappingAlternatives('^(a|b)+$')).toBeUndefined();
+      expect(findOverlappingAlternatives('^(?:[a-z]|\\d)+$')).toBeUndefined();
+      expect(findOverlappingAlternatives('^v\\d+(?:-(?:rc|beta)\\.\\d+)?$')).toBeUndefined();
+      expect(findOverlappingAlternatives('^(a|A)+$')).toBeUndefined();
+      expect(findOverlappingAlternatives('^(a|A)+$', 'i')).toBe('(a|A)+');
+    });
+
+    it('should ignore alternatives that are not repeated', () => {
+      expect(findOverlappingAlternatives('^(\\w|\\d)$')).toBeUndefined();
+      expect(findOverlappingAlternatives('^(?:v|v)?\\d+$')).toBeUndefined();
+    });
+  });
+
+  describe('findOverlappingQuantifiers', () => {
+    it('should find runs of unbounded quantifiers over the same characters', () => {
+      expect(findOverlappingQuantifiers('^\\d*\\d*\\d*\\d*\\d*x$')).toBe('\\d* ... \\d* ... \\d*');
+      expect(findOverlappingQuantifiers('^.*.*.*.*.*x$')).toBe('.* ... .* ... .*');
+      expect(findOverlappingQuantifiers('^(.*)-(.*)-(.*)$')).toBe('.* ... .* ... .*');
+      expect(findOverlappingQuantifiers('^(?<a>.+?)(?<b>\\d+)(?<c>\\w+)$')).toBe('.+? ... \\d+ ... \\w+');
+    });
+
+    it('should accept quantifiers separated by characters they cannot match', () => {
+      expect(findOverlappingQuantifiers('^v\\d+\\.\\d+\\.\\d+$')).toBeUndefined();
+      expect(findOverlappingQuantifiers('^([^-]*)-([^-]*)-(.*)$')).toBeUndefined();
+      expect(findOverlappingQuantifiers('^[a-z]+\\d+[a-z]+$')).toBeUndefined();
+    });
+
+    it('should accept two overlapping quantifiers', () => {
+      expect(findOverlappingQuantifiers('^v\\d+\\.\\d+.*$')).toBeUndefined();
+      expect(findOverlappingQuantifiers('^.*-.*$')).toBeUndefined();
+    });
+
+    it('should check groups that are not flattened', () => {
+      expect(findOverlappingQuantifiers('^v\\d+(?:-\\w*\\w*\\w*)?$')).toBe('\\w* ... \\w* ... \\w*');
+    });
+  });
+
+  describe('assertSafeRegex', () => {
+    it('should name the pattern and the nested quantifier', () => {
+      expect(() => assertSafeRegex('^(a+)+$', '/^(a+)+$/')).toThrow(
+        'Unsafe regex pattern "/^(a+)+$/": nested quantifier "(a+)+" can cause catastrophic backtracking'
+      );
+    });
+
+    it('should reject repeated groups with overlapping alternatives', () => {
+      for (const source of ['^(\\w|\\d)+$', '^(a|a)+$', '^(\\d|\\d\\d)+$']) {
+        expect(() => assertSafeRegex(source, source)).toThrow(
+          `Unsafe regex pattern "${source}": repeated group`
+        );
+      }
+    });
+
+    it('should reject polynomial backtracking', () => {
+      expect(() => assertSafeRegex('^\\d*\\d*\\d*\\d*\\d*x$', '^\\d*\\d*\\d*\\d*\\d*x$')).toThrow(
+        'Unsafe regex pattern "^\\d*\\d*\\d*\\d*\\d*x$": unbounded quantifiers "\\d* ... \\d* ... \\d*"'
+      );
+      expect(() => assertSafeRegex('^.*.*.*.*.*x$', '^.*.*.*.*.*x$')).toThrow('unbounded quantifiers');
+    });
+
+    it('should accept safe regexes', () => {
+      expect(() => assertSafeRegex('^v\\d+\\.\\d+$', '^v\\d+\\.\\d+$')).not.toThrow();
+    });
+  });
+});
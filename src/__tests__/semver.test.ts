@@ -2,7 +2,12 @@ import {
   parseSemver,
   isSemver,
   compareSemver,
+  comparePrerelease,
+  getPrereleaseChannel,
   sortTagsBySemver,
+  formatSemver,
+  incrementSemver,
+  SemverBump,
 } from '../semver';
 
 describe('semver', () => {
@@ -107,11 +112,67 @@ describe('semver', () => {
       expect(compareSemver('1.2.3-beta', '1.2.3-alpha')).toBe(1);
     });
 
+    it('should compare numeric prerelease identifiers numerically', () => {
+      expect(compareSemver('1.0.0-rc.10', '1.0.0-rc.2')).toBe(1);
+      expect(compareSemver('1.0.0-rc.2', '1.0.0-rc.10')).toBe(-1);
+    });
+
+    it('should rank numeric identifiers below alphanumeric identifiers', () => {
+      expect(compareSemver('1.0.0-alpha.1', '1.0.0-alpha.beta')).toBe(-1);
+      expect(compareSemver('1.0.0-alpha.beta', '1.0.0-alpha.1')).toBe(1);
+    });
+
+    it('should follow the SemVer 2.0.0 precedence example', () => {
+      const ordered = [
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0',
+      ];
+      for (let i = 0; i < ordered.length - 1; i++) {
+        expect(compareSemver(ordered[i], ordered[i + 1])).toBe(-1);
+        expect(compareSemver(ordered[i + 1], ordered[i])).toBe(1);
+      }
+    });
+
+    it('should ignore build metadata', () => {
+      expect(compareSemver('1.2.3+build.1', '1.2.3+build.2')).toBe(0);
+      expect(compareSemver('1.2.3-rc.1+abc', '1.2.3-rc.1')).toBe(0);
+    });
+
     it('should return 0 for non-semver tags', () => {
       expect(compareSemver('not-a-version', 'also-not')).toBe(0);
     });
   });
 
+  describe('getPrereleaseChannel', () => {
+    it('should return the leading letters of the prerelease', () => {
+      expect(getPrereleaseChannel('v2.0.0-rc.1')).toBe('rc');
+      expect(getPrereleaseChannel('1.0.0-Beta2')).toBe('beta');
+      expect(getPrereleaseChannel('1.0.0-alpha')).toBe('alpha');
+    });
+
+    it('should return undefined for stable and non-semver tags', () => {
+      expect(getPrereleaseChannel('1.0.0')).toBeUndefined();
+      expect(getPrereleaseChannel('edge')).toBeUndefined();
+    });
+  });
+
+  describe('comparePrerelease', () => {
+    it('should rank a larger set of identifiers higher', () => {
+      expect(comparePrerelease('alpha', 'alpha.1')).toBe(-1);
+      expect(comparePrerelease('alpha.1', 'alpha')).toBe(1);
+    });
+
+    it('should return 0 for identical prereleases', () => {
+      expect(comparePrerelease('beta.2', 'beta.2')).toBe(0);
+    });
+  });
+
   describe('sortTagsBySemver', () => {
     it('should sort tags by semver (highest first)', () => {
       const tags = ['1.0.0', '2.0.0', '1.5.0', '1.2.3'];
@@ -148,6 +209,65 @@ describe('semver', () => {
       // Note: Due to stable sort and non-semver tags comparing as equal,
       // the exact order may vary, but semver tags should be relatively sorted
     });
+
+    it('should sort rc.10 above rc.2', () => {
+      const tags = ['v1.0.0-rc.2', 'v1.0.0-rc.10', 'v1.0.0-rc.1'];
+      expect(sortTagsBySemver(tags)).toEqual(['v1.0.0-rc.10', 'v1.0.0-rc.2', 'v1.0.0-rc.1']);
+    });
+
+    it('should break precedence ties deterministically by tag name', () => {
+      expect(sortTagsBySemver(['v1.2.3', '1.2.3'])).toEqual(['1.2.3', 'v1.2.3']);
+      expect(sortTagsBySemver(['1.2.3', 'v1.2.3'])).toEqual(['1.2.3', 'v1.2.3']);
+      expect(sortTagsBySemver(['1.2.3+b', '1.2.3+a'])).toEqual(['1.2.3+a', '1.2.3+b']);
+    });
+
+    it('should place non-semver tags after semver tags', () => {
+      expect(sortTagsBySemver(['edge', '1.0.0', 'dev', '2.0.0'])).toEqual([
+        '2.0.0',
+        '1.0.0',
+        'dev',
+        'edge',
+      ]);
+    });
   });
-});
 
+  describe('formatSemver', () => {
+    it('should format parts with prerelease and build metadata', () => {
+      expect(formatSemver({ major: 1, minor: 2, patch: 3 })).toBe('1.2.3');
+      expect(formatSemver({ major: 1, minor: 2, patch: 3, prerelease: 'rc.1', build: 'b5' })).toBe(
+        '1.2.3-rc.1+b5'
+      );
+    });
+  });
+
+  describe('incrementSemver', () => {
+    const inc = (version: string, bump: SemverBump): string =>
+      formatSemver(incrementSemver(parseSemver(version)!, bump));
+
+    it('should bump stable versions', () => {
+      expect(inc('1.2.3', 'major')).toBe('2.0.0');
+      expect(inc('1.2.3', 'minor')).toBe('1.3.0');
+      expect(inc('1.2.3', 'patch')).toBe('1.2.4');
+      expect(inc('1.2.3', 'prerelease')).toBe('1.2.4-0');
+    });
+
+    it('should release prereleases of the bumped version', () => {
+      expect(inc('2.0.0-rc.1', 'major')).toBe('2.0.0');
+      expect(inc('1.3.0-rc.1', 'minor')).toBe('1.3.0');
+      expect(inc('1.2.4-rc.1', 'patch')).toBe('1.2.4');
+      expect(inc('1.2.4-rc.1', 'major')).toBe('2.0.0');
+      expect(inc('1.2.4-rc.1', 'minor')).toBe('1.3.0');
+    });
+
+    it('should increment the last numeric prerelease identifier', () => {
+      expect(inc('1.2.4-rc.1', 'prerelease')).toBe('1.2.4-rc.2');
+      expect(inc('1.2.4-rc.9', 'prerelease')).toBe('1.2.4-rc.10');
+      expect(inc('1.2.4-alpha.1.beta', 'prerelease')).toBe('1.2.4-alpha.2.beta');
+      expect(inc('1.2.4-rc', 'prerelease')).toBe('1.2.4-rc.0');
+    });
+
+    it('should drop build metadata', () => {
+      expect(inc('1.2.3+build.7', 'patch')).toBe('1.2.4');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  compareNatural,
+  createSortStrategy,
+  getSortStrategies,
+  preferNumericOrdering,
+  sortItems,
+} from '../sort-strategies';
+
+const items = (...names: string[]) => names.map((name) => ({ name, date: '' }));
+
+describe('sort-strategies', () => {
+  describe('compareNatural', () => {
+    it('should compare digit runs numerically', () => {
+      expect(compareNatural('build-100', 'build-99')).toBe(1);
+      expect(compareNatural('build-99', 'build-100')).toBe(-1);
+      expect(compareNatural('v1.10', 'v1.9')).toBe(1);
+    });
+
+    it('should compare other characters by code point', () => {
+      expect(compareNatural('build-a', 'build-b')).toBe(-1);
+      expect(compareNatural('build-1', 'build-1')).toBe(0);
+      expect(compareNatural('build-1', 'build-1-hotfix')).toBe(-1);
+    });
+  });
+
+  describe('getSortStrategies', () => {
+    it('should return the auto cascade', () => {
+      expect(getSortStrategies('auto').map((s) => s.name)).toEqual(['semver', 'date', 'lexical']);
+      expect(getSortStrategies('auto', { calverFormat: 'YYYY.MM' }).map((s) => s.name)).toEqual([
+        'calver',
+        'date',
+        'lexical',
+      ]);
+      expect(getSortStrategies('auto', { templates: ['{major}.{minor}-ls{build}'] }).map((s) => s.name)).toEqual([
+        'template',
+        'date',
+        'lexical',
+      ]);
+    });
+
+    it('should use the version scheme in the auto cascade', () => {
+      expect(getSortStrategies('auto', { versionScheme: 'pep440' }).map((s) => s.name)).toEqual([
+        'pep440',
+        'date',
+        'lexical',
+      ]);
+      expect(getSortStrategies('auto', { versionScheme: 'semver' })[0].name).toBe('semver');
+      expect(getSortStrategies('auto', { versionScheme: 'maven', calverFormat: 'YYYY.MM' })[0].name).toBe('calver');
+    });
+
+    it('should return a single explicit strategy', () => {
+      expect(getSortStrategies('natural').map((s) => s.name)).toEqual(['natural']);
+    });
+
+    it('should prefer numeric ordering when items are numeric but not semver', () => {
+      const names = (strategies: { name: string }[]) => strategies.map((s) => s.name);
+      const auto = getSortStrategies('auto');
+
+      expect(names(preferNumericOrdering('auto', auto, items('3.22', '3.9', 'edge')))).toEqual([
+        'numeric',
+        'date',
+        'lexical',
+      ]);
+      expect(names(preferNumericOrdering('auto', auto, items('1.2.3', '1.3.0', 'edge')))).toEqual([
+        'semver',
+        'date',
+        'lexical',
+      ]);
+      expect(names(preferNumericOrdering('semver', getSortStrategies('semver'), items('3.22')))).toEqual(['semver']);
+      // Floating major tags and stray numbers next to semver tags keep semver ordering
+      expect(names(preferNumericOrdering('auto', auto, items('v1', 'v1.0.0', 'v2', 'v2.0.0')))[0]).toBe('semver');
+      expect(names(preferNumericOrdering('auto', auto, items('v1.10.0', '20240101')))[0]).toBe('semver');
+      expect(names(preferNumericOrdering('auto', auto, items('v1', 'v1.0', 'v1.0.0', 'v2', 'v2.0', 'v2.0.0')))[0]).toBe(
+        'semver'
+      );
+      // A stray semver tag among numeric versions does not decide the ordering
+      expect(names(preferNumericOrdering('auto', auto, items('3.22', '3.23', '3.9', '1.0.0')))[0]).toBe('numeric');
+      const calver = getSortStrategies('auto', { calverFormat: 'YY.0M' });
+      expect(names(preferNumericOrdering('auto', calver, items('24.04')))).toEqual(['calver', 'date', 'lexical']);
+    });
+
+    it('should require a layout for calver', () => {
+      expect(() => createSortStrategy('calver')).toThrow('requires calver_format');
+    });
+
+    it('should require a template for template ordering', () => {
+      expect(() => createSortStrategy('template')).toThrow('requires a template tag_format');
+    });
+  });
+
+  describe('sortItems', () => {
+    it('should sort with the semver strategy', () => {
+      const strategy = createSortStrategy('semver');
+      expect(sortItems(items('1.0.0', '1.10.0', '1.9.0'), strategy).map((i) => i.name)).toEqual([
+        '1.10.0',
+        '1.9.0',
+        '1.0.0',
+      ]);
+      expect(strategy.accepts({ name: 'edge', date: '' })).toBe(false);
+    });
+
+    it('should sort with the numeric strategy', () => {
+      const strategy = createSortStrategy('numeric');
+      expect(sortItems(items('3.22', '3.9', '3.23', '3.23.1', '1.2.3.4'), strategy).map((i) => i.name)).toEqual([
+        '3.23.1',
+        '3.23',
+        '3.22',
+        '3.9',
+        '1.2.3.4',
+      ]);
+      expect(strategy.accepts({ name: 'edge', date: '' })).toBe(false);
+    });
+
+    it('should rank a semver tag above the short numeric tag it ties with', () => {
+      const strategy = createSortStrategy('numeric');
+      expect(sortItems(items('v2', 'v2.0.0', 'v1'), strategy).map((i) => i.name)).toEqual(['v2.0.0', 'v2', 'v1']);
+      expect(sortItems(items('v2.0.0', 'v2'), strategy).map((i) => i.name)).toEqual(['v2.0.0', 'v2']);
+    });
+
+    it('should sort with the version scheme strategies', () => {
+      const sortNames = (name: 'pep440' | 'maven' | 'debian', ...names: string[]) =>
+        sortItems(items(...names), createSortStrategy(name)).map((i) => i.name);
+
+      expect(sortNames('pep440', '1.2.0rc1', '1.2.0.post1', '1.2.0')).toEqual(['1.2.0.post1', '1.2.0', '1.2.0rc1']);
+      expect(sortNames('maven', '1.0', '1.0-SNAPSHOT', '1.0-beta-2')).toEqual(['1.0', '1.0-SNAPSHOT', '1.0-beta-2']);
+      expect(sortNames('debian', '2.0-1', '2.0~rc1-1', '1:1.0-1')).toEqual(['1:1.0-1', '2.0-1', '2.0~rc1-1']);
+    });
+
+    it('should sort with the calver strategy', () => {
+      const strategy = createSortStrategy('calver', { calverFormat: 'YY.0M' });
+      expect(sortItems(items('23.10', '24.04', '22.04'), strategy).map((i) => i.name)).toEqual([
+        '24.04',
+        '23.10',
+        '22.04',
+      ]);
+    });
+
+    it('should sort with the template strategy by version, then build', () => {
+      const strategy = createSortStrategy('template', {
+        templates: ['{major}.{minor}-{sha:hex8}-ls{build:int}'],
+      });
+      expect(
+        sortItems(
+          items('3.22-aaaaaaaa-ls9', '3.22-bbbbbbbb-ls10', '3.21-cccccccc-ls50', '3.9-dddddddd-ls1'),
+          strategy
+        ).map((i) => i.name)
+      ).toEqual(['3.22-bbbbbbbb-ls10', '3.22-aaaaaaaa-ls9', '3.21-cccccccc-ls50', '3.9-dddddddd-ls1']);
+      expect(strategy.accepts({ name: 'edge-e9613ab3-ls213', date: '' })).toBe(false);
+    });
+
+    it('should sort with the date strategy', () => {
+      const strategy = createSortStrategy('date');
+      const sorted = sortItems(
+        [
+          { name: 'a', date: '2024-01-01T00:00:00Z' },
+          { name: 'b', date: '2024-01-03T00:00:00Z' },
+          { name: 'c', date: '2024-01-02T00:00:00Z' },
+        ],
+        strategy
+      );
+      expect(sorted.map((i) => i.name)).toEqual(['b', 'c', 'a']);
+      expect(strategy.accepts({ name: 'x', date: '' })).toBe(false);
+    });
+
+    it('should sort with the natural strategy', () => {
+      const strategy = createSortStrategy('natural');
+      expect(
+        sortItems(items('build-99', 'build-100', 'build-7'), strategy).map((i) => i.name)
+      ).toEqual(['build-100', 'build-99', 'build-7']);
+    });
+
+    it('should sort with the lexical strategy', () => {
+      const strategy = createSortStrategy('lexical');
+      expect(
+        sortItems(items('build-99', 'build-100', 'build-7'), strategy).map((i) => i.name)
+      ).toEqual(['build-99', 'build-7', 'build-100']);
+    });
+
+    it('should break ties by name', () => {
+      const strategy = createSortStrategy('semver');
+      expect(sortItems(items('v1.0.0', '1.0.0'), strategy).map((i) => i.name)).toEqual([
+        '1.0.0',
+        'v1.0.0',
+      ]);
+    });
+  });
+
+  describe('prerelease checks', () => {
+    it('should detect prereleases with the version scheme of the strategy', () => {
+      const check = (name: 'semver' | 'numeric' | 'pep440' | 'maven' | 'debian', version: string) => {
+        const strategy = createSortStrategy(name);
+        const item = { name: version, date: '' };
+        return [strategy.isPrerelease(item), strategy.getPrereleaseChannel(item)];
+      };
+
+      expect(check('semver', 'v1.0.0-rc.1')).toEqual([true, 'rc']);
+      expect(check('numeric', '3.23-RC1')).toEqual([true, 'rc']);
+      expect(check('pep440', '1.2.0b1')).toEqual([true, 'b']);
+      expect(check('maven', '1.0-SNAPSHOT')).toEqual([true, 'snapshot']);
+      expect(check('debian', '2.0~rc1-1')).toEqual([true, 'rc']);
+      expect(check('pep440', '1.2.0.post1')).toEqual([false, undefined]);
+      expect(check('semver', '1.2.0a1')).toEqual([false, undefined]);
+    });
+
+    it('should use semver prereleases for orderings without a version scheme', () => {
+      const strategy = createSortStrategy('date');
+      expect(strategy.isPrerelease({ name: 'v2.0.0-beta.1', date: '' })).toBe(true);
+      expect(strategy.isPrerelease({ name: '2.0~rc1', date: '' })).toBe(false);
+    });
+  });
+});
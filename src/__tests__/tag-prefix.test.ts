@@ -0,0 +1,49 @@
+import { getTagPrefixes, stripTagPrefix, getBareVersion } from '../tag-prefix';
+
+describe('tag-prefix', () => {
+  describe('getTagPrefixes', () => {
+    it('should use tag_prefix literally', () => {
+      expect(getTagPrefixes('charts/redis-v')).toEqual(['charts/redis-v']);
+    });
+
+    it('should expand a component to common separators', () => {
+      expect(getTagPrefixes(undefined, 'api')).toEqual(['api@', 'api/']);
+    });
+
+    it('should not match sibling components sharing the name', () => {
+      const prefixes = getTagPrefixes(undefined, 'api') ?? [];
+      expect(stripTagPrefix('api-gateway@9.0.0', prefixes)).toBeUndefined();
+      expect(stripTagPrefix('api-1.4.2', prefixes)).toBeUndefined();
+      expect(stripTagPrefix('api/v1.4.2', prefixes)).toBe('v1.4.2');
+    });
+
+    it('should return undefined when neither is set', () => {
+      expect(getTagPrefixes()).toBeUndefined();
+    });
+
+    it('should reject both inputs together', () => {
+      expect(() => getTagPrefixes('api@', 'api')).toThrow('Use either tag_prefix or component');
+    });
+  });
+
+  describe('stripTagPrefix', () => {
+    it('should remove the first matching prefix', () => {
+      expect(stripTagPrefix('api@1.4.2', ['api@', 'api/'])).toBe('1.4.2');
+      expect(stripTagPrefix('api/v1.4.2', ['api@', 'api/'])).toBe('v1.4.2');
+    });
+
+    it('should return undefined for unprefixed tags', () => {
+      expect(stripTagPrefix('web@3.0.0', ['api@'])).toBeUndefined();
+      expect(stripTagPrefix('api@', ['api@'])).toBeUndefined();
+    });
+  });
+
+  describe('getBareVersion', () => {
+    it('should remove the prefix and leading v', () => {
+      expect(getBareVersion('api@1.4.2', ['api@'])).toBe('1.4.2');
+      expect(getBareVersion('charts/redis-v2.1.0', ['charts/redis-v'])).toBe('2.1.0');
+      expect(getBareVersion('v1.2.3')).toBe('1.2.3');
+      expect(getBareVersion('edge')).toBe('edge');
+    });
+  });
+});
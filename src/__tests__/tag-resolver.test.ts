@@ -1,12 +1,18 @@
-import { resolveLatestTag } from '../tag-resolver';
+import {
+  resolveLatestTag,
+  resolvePreviousTag,
+  resolveCandidates,
+  resolveSelectedTag,
+} from '../tag-resolver';
 import { PlatformAPI } from '../types';
+import { getTagPrefixes } from '../tag-prefix';
 
 // Create mock PlatformAPI
 function createMockPlatformAPI(mocks: {
   getAllTagNames?: () => Promise<string[]>;
   getAllTags?: () => Promise<Array<{ name: string; date: string }>>;
   getAllReleaseNames?: () => Promise<string[]>;
-  getAllReleases?: () => Promise<Array<{ name: string; date: string }>>;
+  getAllReleases?: () => Promise<Array<{ name: string; date: string; is_prerelease?: boolean }>>;
 }): PlatformAPI {
   return {
     getTagInfo: jest.fn(),
@@ -15,6 +21,7 @@ function createMockPlatformAPI(mocks: {
     getAllTags: mocks.getAllTags || jest.fn().mockResolvedValue([]),
     getAllReleaseNames: mocks.getAllReleaseNames || jest.fn().mockResolvedValue([]),
     getAllReleases: mocks.getAllReleases || jest.fn().mockResolvedValue([]),
+    getCommitsSince: jest.fn().mockResolvedValue([]),
   };
 }
 
@@ -239,6 +246,595 @@ describe('tag-resolver', () => {
           'No tags found matching any format pattern'
         );
       });
+
+      it('should apply negated patterns to the tags of the selected pattern', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.2.0', 'v1.3.0-rc.1', 'v1.1.0', 'edge']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, ['v*.*.*', '!*-rc*']);
+        expect(latest).toBe('v1.2.0');
+      });
+
+      it('should throw when negated patterns exclude every tag', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.3.0-rc.1', 'edge']),
+        });
+
+        await expect(resolveLatestTag(mockAPI, ['v*.*.*', '!*-rc*'])).rejects.toThrow(
+          'No tags found matching negated format pattern(s): ["!*-rc*"]'
+        );
+      });
+    });
+
+    describe('template ordering', () => {
+      it('should order template tags by version components, then build', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest
+            .fn()
+            .mockResolvedValue(['3.22-aaaaaaaa-ls9', '3.22-bbbbbbbb-ls10', '3.21-cccccccc-ls50', 'edge-e9613ab3-ls213']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, '{major}.{minor}-{sha:hex8}-ls{build:int}');
+        expect(latest).toBe('3.22-bbbbbbbb-ls10');
+        expect(mockAPI.getAllTags).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('tag_format_mode', () => {
+      it('should compare tags matching any pattern in union mode', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.2.0', '1.3.0', 'v1.1.0', 'edge']),
+        });
+
+        const fallback = await resolveLatestTag(mockAPI, ['vX.X.X', 'X.X.X'], 'tags');
+        expect(fallback).toBe('v1.2.0');
+
+        const union = await resolveLatestTag(mockAPI, ['vX.X.X', 'X.X.X'], 'tags', { tagFormatMode: 'union' });
+        expect(union).toBe('1.3.0');
+      });
+
+      it('should require every pattern to match in all mode', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.2.0', 'v2.0.0-rc.1', 'v1.3.0-rc.2', '1.4.0']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, ['v*.*.*', '*-rc*'], 'tags', { tagFormatMode: 'all' });
+        expect(latest).toBe('v2.0.0-rc.1');
+      });
+
+      it('should throw when no tag matches every pattern', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.2.0', '1.3.0']),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, ['vX.X.X', 'X.X.X'], 'tags', { tagFormatMode: 'all' })
+        ).rejects.toThrow('No tags found matching all format patterns: ["vX.X.X", "X.X.X"]');
+      });
+
+      it('should throw when no tag matches any pattern in union mode', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['edge', 'nightly']),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, ['vX.X.X', 'X.X.X'], 'tags', { tagFormatMode: 'union' })
+        ).rejects.toThrow('No tags found matching any format pattern: ["vX.X.X", "X.X.X"]');
+      });
+    });
+
+    describe('tag_format_match', () => {
+      it('should ignore suffixed tags in strict mode', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.2.0', '1.3.0-rc1', '1.1.0']),
+        });
+
+        const auto = await resolveLatestTag(mockAPI, 'X.X.X', 'tags');
+        expect(auto).toBe('1.3.0-rc1');
+
+        const strict = await resolveLatestTag(mockAPI, 'X.X.X', 'tags', { tagFormatMatch: 'strict' });
+        expect(strict).toBe('1.2.0');
+      });
+
+      it('should match longer tags in prefix mode', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['3.22.1', '3.23.0', 'edge']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, 'X.X', 'tags', { tagFormatMatch: 'prefix' });
+        expect(latest).toBe('3.23.0');
+      });
+    });
+
+    describe('tag exclusion', () => {
+      it('should drop excluded tags before resolving latest', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.2.0', '1.3.0', '99.0.0-test', '1.4.0-nightly']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          tagExclude: ['*-test', '*-nightly'],
+        });
+        expect(latest).toBe('1.3.0');
+      });
+
+      it('should apply exclusion after format filtering', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.0.0', 'v2.0.0', 'legacy-3.0.0', 'v2.1.0-debug']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, ['vX.X.X', '*.*.*'], 'tags', {
+          tagExclude: ['legacy-*', '*-debug'],
+        });
+        expect(latest).toBe('v2.0.0');
+      });
+
+      it('should throw when every tag is excluded', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.0.0-nightly']),
+          getAllTags: jest.fn().mockResolvedValue([{ name: '1.0.0-nightly', date: '2024-01-01' }]),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, undefined, 'tags', { tagExclude: ['*-nightly'] })
+        ).rejects.toThrow('No tags left after excluding tag_exclude patterns: ["*-nightly"]');
+        expect(mockAPI.getAllTags).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('version constraints', () => {
+      it('should resolve the latest tag satisfying a caret range', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.3.0', 'v1.4.2', 'v1.9.0', 'v2.1.0']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          versionConstraint: '^1.4',
+        });
+        expect(latest).toBe('v1.9.0');
+      });
+
+      it('should apply the constraint after format filtering', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.9.5', 'v1.9.9', 'v2.0.0']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, 'X.X.X', 'tags', {
+          versionConstraint: '>=2.0.0 <3.0.0 || ~1.9',
+        });
+        expect(latest).toBe('1.9.5');
+      });
+
+      it('should throw when no tags satisfy the constraint', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.0.0', 'v2.0.0']),
+          getAllTags: jest.fn().mockResolvedValue([
+            { name: 'v1.0.0', date: '2024-01-01' },
+            { name: 'v2.0.0', date: '2024-01-02' },
+          ]),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, undefined, 'tags', { versionConstraint: '^3' })
+        ).rejects.toThrow('No tags found matching version constraint "^3"');
+      });
+
+      it('should constrain releases', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllReleases: jest.fn().mockResolvedValue([
+            { name: 'v1.4.0', date: '2024-01-01' },
+            { name: 'v1.5.0', date: '2024-01-02' },
+            { name: 'v2.0.0', date: '2024-01-03' },
+          ]),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'release', {
+          versionConstraint: '~1.4',
+        });
+        expect(latest).toBe('v1.4.0');
+      });
+    });
+
+    describe('prerelease policy', () => {
+      const tagNames = ['v1.9.0', 'v2.0.0-rc.1', 'v2.0.0-beta.3', 'v2.0.0-alpha.1'];
+
+      it('should include prereleases by default', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+        });
+
+        const latest = await resolveLatestTag(mockAPI);
+        expect(latest).toBe('v2.0.0-rc.1');
+      });
+
+      it('should exclude prereleases', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          prereleasePolicy: 'exclude',
+        });
+        expect(latest).toBe('v1.9.0');
+      });
+
+      it('should select prereleases from a named channel', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          prereleasePolicy: 'beta',
+        });
+        expect(latest).toBe('v2.0.0-beta.3');
+      });
+
+      it('should keep stable tags that outrank the channel', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v2.0.0', 'v2.0.0-rc.2', 'v1.9.0']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          prereleasePolicy: 'rc',
+        });
+        expect(latest).toBe('v2.0.0');
+      });
+
+      it('should honor the platform prerelease flag for releases', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllReleases: jest.fn().mockResolvedValue([
+            { name: 'v1.0.0', date: '2024-01-01', is_prerelease: false },
+            { name: 'v1.1.0', date: '2024-01-02', is_prerelease: true },
+          ]),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'release', {
+          prereleasePolicy: 'exclude',
+        });
+        expect(latest).toBe('v1.0.0');
+      });
+
+      it('should throw when the policy leaves no candidates', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v2.0.0-alpha.1']),
+          getAllTags: jest.fn().mockResolvedValue([{ name: 'v2.0.0-alpha.1', date: '' }]),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, undefined, 'tags', { prereleasePolicy: 'exclude' })
+        ).rejects.toThrow('No tags found matching prerelease policy "exclude"');
+      });
+
+      it('should detect PEP 440 pre-releases and development releases', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.1.0', '1.2.0a1', '1.2.0rc1', '1.3.0.dev2']),
+        });
+        const options = { versionScheme: 'pep440' as const };
+
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'exclude' })).toBe(
+          '1.1.0'
+        );
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'rc' })).toBe(
+          '1.2.0rc1'
+        );
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'a' })).toBe(
+          '1.2.0a1'
+        );
+      });
+
+      it('should detect Debian pre-releases by "~"', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['2.0-1', '2.1_rc1-1', '2.1_beta2-1']),
+        });
+        const options = { versionScheme: 'debian' as const };
+
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'exclude' })).toBe(
+          '2.0-1'
+        );
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'beta' })).toBe(
+          '2.1_beta2-1'
+        );
+      });
+
+      it('should detect Maven qualifiers that sort before the release', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.0.0.RELEASE', '1.0.1-sp1', '1.1-alpha-1', '1.1-SNAPSHOT']),
+        });
+        const options = { versionScheme: 'maven' as const };
+
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'exclude' })).toBe(
+          '1.0.1-sp1'
+        );
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { ...options, prereleasePolicy: 'alpha' })).toBe(
+          '1.1-alpha-1'
+        );
+      });
+
+      it('should detect numeric versions with a non-numeric suffix', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['3.22', '3.23-rc1', '3.21-1']),
+        });
+
+        expect(
+          await resolveLatestTag(mockAPI, undefined, 'tags', { sortBy: 'numeric', prereleasePolicy: 'exclude' })
+        ).toBe('3.22');
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags', { prereleasePolicy: 'exclude' })).toBe('3.22');
+      });
+    });
+
+    describe('CalVer ordering', () => {
+      it('should order tags by the CalVer layout', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['2024.9.30', '2024.10.3', '2023.12.31']),
+        });
+
+        // Alphabetically or by semver-less date these would mis-order
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          calverFormat: 'YYYY.MM.DD',
+        });
+        expect(latest).toBe('2024.10.3');
+      });
+
+      it('should order short-year tags', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['23.10', '24.04', '22.04']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', { calverFormat: 'YY.0M' });
+        expect(latest).toBe('24.04');
+      });
+
+      it('should fall back to dates when no tag matches the layout', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['build-a', 'build-b']),
+          getAllTags: jest.fn().mockResolvedValue([
+            { name: 'build-a', date: '2024-01-02T00:00:00Z' },
+            { name: 'build-b', date: '2024-01-01T00:00:00Z' },
+          ]),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          calverFormat: 'YYYY.0M.0D',
+        });
+        expect(latest).toBe('build-a');
+      });
+
+      it('should place a reference by CalVer when resolving previous', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['2025.01.15', '2025.01.15-1', '2024.12.01']),
+        });
+
+        const previous = await resolvePreviousTag(mockAPI, '2025.02.01', undefined, 'tags', {
+          calverFormat: 'YYYY.0M.0D',
+        });
+        expect(previous).toBe('2025.01.15-1');
+      });
+    });
+
+    describe('sort_by strategies', () => {
+      const buildTags = ['build-99', 'build-100', 'build-7'];
+
+      it('should order tags naturally', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(buildTags),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', { sortBy: 'natural' });
+        expect(latest).toBe('build-100');
+      });
+
+      it('should order tags lexically', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(buildTags),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', { sortBy: 'lexical' });
+        expect(latest).toBe('build-99');
+      });
+
+      it('should order semver tags by date when requested', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v2.0.0', 'v1.9.1']),
+          getAllTags: jest.fn().mockResolvedValue([
+            { name: 'v2.0.0', date: '2024-01-01T00:00:00Z' },
+            { name: 'v1.9.1', date: '2024-02-01T00:00:00Z' },
+          ]),
+        });
+
+        // A backport released after v2.0.0 is newest by date
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', { sortBy: 'date' });
+        expect(latest).toBe('v1.9.1');
+        expect(mockAPI.getAllTagNames).not.toHaveBeenCalled();
+      });
+
+      it('should not fall back when an explicit strategy cannot order any tag', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(buildTags),
+          getAllTags: jest.fn().mockResolvedValue(buildTags.map((name) => ({ name, date: '' }))),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, undefined, 'tags', { sortBy: 'semver' })
+        ).rejects.toThrow('No tags found matching sort strategy "semver"');
+      });
+
+      it('should order numeric tags that are not strict semver by version', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['3.22', '3.23', '3.9', 'edge']),
+        });
+
+        // 3.9 is a backport tagged after 3.23; numeric ordering ignores dates
+        const result = await resolveCandidates(mockAPI, undefined, 'tags');
+        expect(result.ordering).toBe('numeric');
+        expect(result.candidates.map((c) => c.name)).toEqual(['3.23', '3.22', '3.9']);
+        expect(mockAPI.getAllTags).not.toHaveBeenCalled();
+      });
+
+      it('should keep numeric ordering when numeric tags outnumber a stray semver tag', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['3.22', '3.23', '3.9', '1.0.0']),
+        });
+
+        const result = await resolveCandidates(mockAPI, undefined, 'tags');
+        expect(result.ordering).toBe('numeric');
+        expect(result.candidates.map((c) => c.name)).toEqual(['3.23', '3.22', '3.9', '1.0.0']);
+      });
+
+      it('should compare four-part tags by their numbers when no tag is strict semver', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.2.3.4', '1.2.10.0', '1.2.9.1']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags');
+        expect(latest).toBe('1.2.10.0');
+        const previous = await resolvePreviousTag(mockAPI, 'latest', undefined, 'tags');
+        expect(previous).toBe('1.2.9.1');
+      });
+
+      it('should keep semver ordering next to floating major tags', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1', 'v1.0.0', 'v1.1.0', 'v2', 'v2.0.0']),
+        });
+
+        const result = await resolveCandidates(mockAPI, undefined, 'tags');
+        expect(result.ordering).toBe('semver');
+        expect(result.candidates[0].name).toBe('v2.0.0');
+      });
+
+      it('should not let a stray numeric tag outrank semver tags', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['v1.9.0', 'v1.10.0', '20240101']),
+        });
+
+        expect(await resolveLatestTag(mockAPI, undefined, 'tags')).toBe('v1.10.0');
+      });
+
+      it('should order tags with the version scheme', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['1.2.0rc1', '1.2.0', '1.2.0.post1', '1.1.9']),
+        });
+
+        const result = await resolveCandidates(mockAPI, undefined, 'tags', { versionScheme: 'pep440' });
+        expect(result.ordering).toBe('pep440');
+        expect(result.candidates.map((c) => c.name)).toEqual(['1.2.0.post1', '1.2.0', '1.2.0rc1', '1.1.9']);
+
+        const previous = await resolvePreviousTag(mockAPI, '1.2.0', undefined, 'tags', { versionScheme: 'pep440' });
+        expect(previous).toBe('1.2.0rc1');
+      });
+
+      it('should report the strategy used in resolveCandidates', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(buildTags),
+        });
+
+        const result = await resolveCandidates(mockAPI, undefined, 'tags', { sortBy: 'natural' });
+        expect(result.ordering).toBe('natural');
+        expect(result.candidates.map((c) => c.name)).toEqual(['build-100', 'build-99', 'build-7']);
+      });
+
+      it('should place a missing reference with the natural strategy', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(buildTags),
+        });
+
+        const previous = await resolvePreviousTag(mockAPI, 'build-101', undefined, 'tags', {
+          sortBy: 'natural',
+        });
+        expect(previous).toBe('build-100');
+      });
+    });
+
+    describe('component prefixes', () => {
+      const monorepoTags = [
+        'api@1.4.2',
+        'api@1.10.0',
+        'api@2.0.0-rc.1',
+        'web@3.0.0',
+        'charts/redis-v2.1.0',
+        'charts/redis-v2.0.3',
+      ];
+
+      it('should scope resolution to one component', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(monorepoTags),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          tagPrefixes: ['api@'],
+          prereleasePolicy: 'exclude',
+        });
+        expect(latest).toBe('api@1.10.0');
+      });
+
+      it('should parse the version after a literal prefix', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(monorepoTags),
+        });
+
+        const result = await resolveCandidates(mockAPI, 'X.X.X', 'tags', {
+          tagPrefixes: ['charts/redis-v'],
+        });
+        expect(result.ordering).toBe('semver');
+        expect(result.candidates).toEqual([
+          { name: 'charts/redis-v2.1.0', date: '', version: '2.1.0' },
+          { name: 'charts/redis-v2.0.3', date: '', version: '2.0.3' },
+        ]);
+      });
+
+      it('should apply constraints and selectors to the bare version', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(monorepoTags),
+        });
+
+        expect(
+          await resolveLatestTag(mockAPI, undefined, 'tags', {
+            tagPrefixes: ['api@'],
+            versionConstraint: '~1.4',
+          })
+        ).toBe('api@1.4.2');
+        expect(
+          await resolveSelectedTag(mockAPI, { from: 'latest', offset: 0, major: 2 }, 'latest@2', undefined, 'tags', {
+            tagPrefixes: ['api@'],
+          })
+        ).toBe('api@2.0.0-rc.1');
+      });
+
+      it('should resolve the previous component tag', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(monorepoTags),
+        });
+
+        expect(
+          await resolvePreviousTag(mockAPI, 'api@1.10.0', undefined, 'tags', { tagPrefixes: ['api@'] })
+        ).toBe('api@1.4.2');
+        expect(
+          await resolvePreviousTag(mockAPI, 'api@1.5.0', undefined, 'tags', { tagPrefixes: ['api@'] })
+        ).toBe('api@1.4.2');
+      });
+
+      it('should leave sibling components out of a component scope', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(['api@1.0.0', 'api-gateway@9.0.0', 'api/1.1.0']),
+        });
+
+        const latest = await resolveLatestTag(mockAPI, undefined, 'tags', {
+          tagPrefixes: getTagPrefixes(undefined, 'api'),
+          sortBy: 'lexical',
+        });
+        expect(latest).toBe('api/1.1.0');
+      });
+
+      it('should throw when no tag has the prefix', async () => {
+        const mockAPI = createMockPlatformAPI({
+          getAllTagNames: jest.fn().mockResolvedValue(monorepoTags),
+          getAllTags: jest.fn().mockResolvedValue(monorepoTags.map((name) => ({ name, date: '' }))),
+        });
+
+        await expect(
+          resolveLatestTag(mockAPI, undefined, 'tags', { tagPrefixes: ['cli@'] })
+        ).rejects.toThrow('No tags found matching tag prefix "cli@"');
+      });
     });
 
     describe('release resolution', () => {
@@ -264,4 +860,211 @@ describe('tag-resolver', () => {
       });
     });
   });
+
+  describe('resolveCandidates', () => {
+    it('should return candidates newest first with the ordering used', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(['v1.0.0', 'v1.2.0', 'v1.1.0']),
+      });
+
+      const result = await resolveCandidates(mockAPI);
+      expect(result.ordering).toBe('semver');
+      expect(result.candidates.map((c) => c.name)).toEqual(['v1.2.0', 'v1.1.0', 'v1.0.0']);
+    });
+
+    it('should report date ordering for non-semver tags', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTags: jest.fn().mockResolvedValue([
+          { name: 'release-1', date: '2024-01-01T00:00:00Z' },
+          { name: 'release-2', date: '2024-01-02T00:00:00Z' },
+        ]),
+      });
+
+      const result = await resolveCandidates(mockAPI);
+      expect(result.ordering).toBe('date');
+      expect(result.candidates).toEqual([
+        { name: 'release-2', date: '2024-01-02T00:00:00Z', version: 'release-2' },
+        { name: 'release-1', date: '2024-01-01T00:00:00Z', version: 'release-1' },
+      ]);
+    });
+
+    it('should pass the candidate list to onCandidates', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(['v1.0.0', 'v1.1.0', 'other']),
+      });
+      const onCandidates = jest.fn();
+
+      const latest = await resolveLatestTag(mockAPI, 'vX.X.X', 'tags', { onCandidates });
+      expect(latest).toBe('v1.1.0');
+      expect(onCandidates).toHaveBeenCalledTimes(1);
+      expect(onCandidates).toHaveBeenCalledWith({
+        candidates: [
+          { name: 'v1.1.0', date: '', version: '1.1.0' },
+          { name: 'v1.0.0', date: '', version: '1.0.0' },
+        ],
+        ordering: 'semver',
+      });
+    });
+  });
+
+  describe('resolvePreviousTag', () => {
+    const tagNames = ['v1.2.0', 'v1.4.0', 'v1.3.0', 'v1.3.1', 'edge'];
+
+    it('should return the tag preceding a given tag', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(await resolvePreviousTag(mockAPI, 'v1.4.0')).toBe('v1.3.1');
+      expect(await resolvePreviousTag(mockAPI, 'v1.3.0')).toBe('v1.2.0');
+    });
+
+    it('should return the tag preceding latest', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(await resolvePreviousTag(mockAPI, 'latest')).toBe('v1.3.1');
+    });
+
+    it('should return undefined for the oldest tag', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(await resolvePreviousTag(mockAPI, 'v1.2.0')).toBeUndefined();
+    });
+
+    it('should place a reference outside the candidates by semver precedence', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      // v1.3.5 is not tagged yet (e.g. the release being prepared)
+      expect(await resolvePreviousTag(mockAPI, 'v1.3.5')).toBe('v1.3.1');
+    });
+
+    it('should apply format filtering to the candidates', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(['1.4.0', 'v1.3.0', '1.2.0']),
+      });
+
+      expect(await resolvePreviousTag(mockAPI, '1.4.0', 'X.X.X')).toBe('1.2.0');
+    });
+
+    it('should place a reference outside the candidates by template ordering', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(['v1.2.0', 'v1.10.0', 'v1.9.0', 'edge']),
+      });
+
+      expect(await resolvePreviousTag(mockAPI, 'v1.9.5', 'v{major}.{minor}.{patch}')).toBe('v1.9.0');
+      expect(await resolvePreviousTag(mockAPI, 'v1.11.0', 'v{major}.{minor}.{patch}')).toBe('v1.10.0');
+    });
+
+    it('should use date ordering when tags are not semver', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTags: jest.fn().mockResolvedValue([
+          { name: 'release-a', date: '2024-01-01T00:00:00Z' },
+          { name: 'release-c', date: '2024-01-03T00:00:00Z' },
+          { name: 'release-b', date: '2024-01-02T00:00:00Z' },
+        ]),
+      });
+
+      expect(await resolvePreviousTag(mockAPI, 'release-c')).toBe('release-b');
+    });
+
+    it('should throw when a non-semver reference is not a candidate', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTags: jest.fn().mockResolvedValue([
+          { name: 'release-a', date: '2024-01-01T00:00:00Z' },
+        ]),
+      });
+
+      await expect(resolvePreviousTag(mockAPI, 'release-z')).rejects.toThrow(
+        'Cannot resolve tag preceding "release-z"'
+      );
+    });
+  });
+
+  describe('resolveSelectedTag', () => {
+    const tagNames = ['v1.3.0', 'v1.4.0', 'v1.4.2', 'v2.0.0', 'v2.1.0', 'edge'];
+
+    it('should select the Nth newest candidate', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(await resolveSelectedTag(mockAPI, { from: 'latest', offset: 2 }, 'latest~2')).toBe(
+        'v1.4.2'
+      );
+    });
+
+    it('should select the newest tag within a major line', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(
+        await resolveSelectedTag(mockAPI, { from: 'latest', offset: 0, major: 1 }, 'latest@1')
+      ).toBe('v1.4.2');
+    });
+
+    it('should select the newest tag within a minor line', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(
+        await resolveSelectedTag(
+          mockAPI,
+          { from: 'latest', offset: 0, major: 1, minor: 3 },
+          'latest@1.3'
+        )
+      ).toBe('v1.3.0');
+    });
+
+    it('should select the oldest candidate', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      expect(await resolveSelectedTag(mockAPI, { from: 'oldest', offset: 0 }, 'oldest')).toBe(
+        'v1.3.0'
+      );
+      expect(await resolveSelectedTag(mockAPI, { from: 'oldest', offset: 1 }, 'oldest~1')).toBe(
+        'v1.4.0'
+      );
+    });
+
+    it('should throw when the offset is out of range', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      await expect(
+        resolveSelectedTag(mockAPI, { from: 'latest', offset: 1, major: 2, minor: 0 }, 'latest@2.0~1')
+      ).rejects.toThrow('Selector "latest@2.0~1" is out of range');
+    });
+
+    it('should throw when no candidate is in the version line', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(tagNames),
+      });
+
+      await expect(
+        resolveSelectedTag(mockAPI, { from: 'latest', offset: 0, major: 3 }, 'latest@3')
+      ).rejects.toThrow('No tags found in version line 3.x');
+    });
+
+    it('should scope versions that are not strict semver by their leading numbers', async () => {
+      const mockAPI = createMockPlatformAPI({
+        getAllTagNames: jest.fn().mockResolvedValue(['3.22', '3.23', '3.9', '4.0-ls2', 'edge']),
+      });
+
+      expect(await resolveSelectedTag(mockAPI, { from: 'latest', offset: 0, major: 3 }, 'latest@3')).toBe('3.23');
+      expect(
+        await resolveSelectedTag(mockAPI, { from: 'latest', offset: 0, major: 3, minor: 9 }, 'latest@3.9')
+      ).toBe('3.9');
+    });
+  });
 });
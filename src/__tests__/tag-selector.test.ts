@@ -0,0 +1,44 @@
+import { parseTagSelector, isPlainLatest } from '../tag-selector';
+
+describe('tag-selector', () => {
+  describe('parseTagSelector', () => {
+    it('should parse latest and oldest', () => {
+      expect(parseTagSelector('latest')).toEqual({ from: 'latest', offset: 0 });
+      expect(parseTagSelector('LATEST')).toEqual({ from: 'latest', offset: 0 });
+      expect(parseTagSelector('oldest')).toEqual({ from: 'oldest', offset: 0 });
+      expect(parseTagSelector('earliest')).toEqual({ from: 'oldest', offset: 0 });
+    });
+
+    it('should parse offsets', () => {
+      expect(parseTagSelector('latest~2')).toEqual({ from: 'latest', offset: 2 });
+      expect(parseTagSelector('oldest~1')).toEqual({ from: 'oldest', offset: 1 });
+    });
+
+    it('should parse major and minor scopes', () => {
+      expect(parseTagSelector('latest@1')).toEqual({ from: 'latest', offset: 0, major: 1 });
+      expect(parseTagSelector('latest@1.4')).toEqual({
+        from: 'latest',
+        offset: 0,
+        major: 1,
+        minor: 4,
+      });
+      expect(parseTagSelector('latest@v2~1')).toEqual({ from: 'latest', offset: 1, major: 2 });
+    });
+
+    it('should return undefined for plain tag names', () => {
+      expect(parseTagSelector('v1.2.3')).toBeUndefined();
+      expect(parseTagSelector('latest-build')).toBeUndefined();
+      expect(parseTagSelector('previous')).toBeUndefined();
+      expect(parseTagSelector('latest~')).toBeUndefined();
+    });
+  });
+
+  describe('isPlainLatest', () => {
+    it('should only be true for the plain latest selector', () => {
+      expect(isPlainLatest({ from: 'latest', offset: 0 })).toBe(true);
+      expect(isPlainLatest({ from: 'latest', offset: 1 })).toBe(false);
+      expect(isPlainLatest({ from: 'latest', offset: 0, major: 1 })).toBe(false);
+      expect(isPlainLatest({ from: 'oldest', offset: 0 })).toBe(false);
+    });
+  });
+});
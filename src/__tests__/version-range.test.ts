@@ -0,0 +1,101 @@
+import { parseVersionRange, satisfiesRange, filterTagsByConstraint } from '../version-range';
+
+describe('version-range', () => {
+  describe('parseVersionRange', () => {
+    it('should parse a union into comparator sets', () => {
+      const range = parseVersionRange('>=2.0.0 <3.0.0 || ~1.9');
+      expect(range).toHaveLength(2);
+      expect(range[0]).toHaveLength(2);
+    });
+
+    it('should throw for empty constraints', () => {
+      expect(() => parseVersionRange('')).toThrow('Version constraint cannot be empty');
+      expect(() => parseVersionRange('   ')).toThrow('Version constraint cannot be empty');
+    });
+
+    it('should throw for unparseable versions', () => {
+      expect(() => parseVersionRange('^abc')).toThrow('Invalid version constraint "^abc"');
+      expect(() => parseVersionRange('>=1.2.3.4')).toThrow('Invalid version constraint');
+    });
+  });
+
+  describe('satisfiesRange', () => {
+    it('should handle caret ranges', () => {
+      expect(satisfiesRange('1.4.0', '^1.4')).toBe(true);
+      expect(satisfiesRange('v1.9.3', '^1.4')).toBe(true);
+      expect(satisfiesRange('1.3.9', '^1.4')).toBe(false);
+      expect(satisfiesRange('2.0.0', '^1.4')).toBe(false);
+    });
+
+    it('should handle caret ranges below 1.0.0', () => {
+      expect(satisfiesRange('0.2.5', '^0.2.3')).toBe(true);
+      expect(satisfiesRange('0.3.0', '^0.2.3')).toBe(false);
+      expect(satisfiesRange('0.0.3', '^0.0.3')).toBe(true);
+      expect(satisfiesRange('0.0.4', '^0.0.3')).toBe(false);
+      expect(satisfiesRange('0.9.0', '^0.x')).toBe(true);
+    });
+
+    it('should handle tilde ranges', () => {
+      expect(satisfiesRange('1.9.0', '~1.9')).toBe(true);
+      expect(satisfiesRange('1.9.7', '~1.9.2')).toBe(true);
+      expect(satisfiesRange('1.9.1', '~1.9.2')).toBe(false);
+      expect(satisfiesRange('1.10.0', '~1.9')).toBe(false);
+      expect(satisfiesRange('1.10.0', '~1')).toBe(true);
+    });
+
+    it('should handle x-ranges and partial versions', () => {
+      expect(satisfiesRange('1.4.2', '1.x')).toBe(true);
+      expect(satisfiesRange('1.4.2', '1.4.*')).toBe(true);
+      expect(satisfiesRange('1.5.0', '1.4.x')).toBe(false);
+      expect(satisfiesRange('1.0.0', '1')).toBe(true);
+      expect(satisfiesRange('2.0.0', '1')).toBe(false);
+      expect(satisfiesRange('5.6.7', '*')).toBe(true);
+    });
+
+    it('should handle hyphen ranges', () => {
+      expect(satisfiesRange('1.2.0', '1.2 - 2.3.4')).toBe(true);
+      expect(satisfiesRange('2.3.4', '1.2 - 2.3.4')).toBe(true);
+      expect(satisfiesRange('2.3.5', '1.2 - 2.3.4')).toBe(false);
+      expect(satisfiesRange('2.3.9', '1.2.3 - 2.3')).toBe(true);
+      expect(satisfiesRange('2.4.0', '1.2.3 - 2.3')).toBe(false);
+    });
+
+    it('should handle primitive comparators with partial versions', () => {
+      expect(satisfiesRange('1.5.0', '>1.4')).toBe(true);
+      expect(satisfiesRange('1.4.9', '>1.4')).toBe(false);
+      expect(satisfiesRange('1.4.9', '<=1.4')).toBe(true);
+      expect(satisfiesRange('1.5.0', '<=1.4')).toBe(false);
+      expect(satisfiesRange('1.3.9', '<1.4')).toBe(true);
+      expect(satisfiesRange('1.4.0', '<1.4')).toBe(false);
+      expect(satisfiesRange('1.2.3', '=1.2.3')).toBe(true);
+      expect(satisfiesRange('1.2.3', '>= 1.2.3')).toBe(true);
+    });
+
+    it('should handle unions', () => {
+      const range = '>=2.0.0 <3.0.0 || ~1.9';
+      expect(satisfiesRange('2.5.0', range)).toBe(true);
+      expect(satisfiesRange('1.9.4', range)).toBe(true);
+      expect(satisfiesRange('1.8.0', range)).toBe(false);
+      expect(satisfiesRange('3.0.0', range)).toBe(false);
+    });
+
+    it('should exclude prereleases unless a comparator names the same version', () => {
+      expect(satisfiesRange('1.5.0-rc.1', '^1.4')).toBe(false);
+      expect(satisfiesRange('2.0.0-alpha.1', '^1.4')).toBe(false);
+      expect(satisfiesRange('1.5.0-rc.2', '>=1.5.0-rc.1 <2.0.0')).toBe(true);
+      expect(satisfiesRange('1.6.0-rc.2', '>=1.5.0-rc.1 <2.0.0')).toBe(false);
+    });
+
+    it('should never match non-semver tags', () => {
+      expect(satisfiesRange('3.23-bae0df8a-ls3', '*')).toBe(false);
+      expect(satisfiesRange('latest', '>=0.0.0')).toBe(false);
+    });
+  });
+
+  describe('filterTagsByConstraint', () => {
+    it('should keep only tags satisfying the constraint', () => {
+      const tags = ['v1.3.0', 'v1.4.0', 'v1.9.9', 'v2.0.0', 'edge'];
+      expect(filterTagsByConstraint(tags, '^1.4')).toEqual(['v1.4.0', 'v1.9.9']);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Calendar versioning (CalVer) utilities
+ * Layouts are built from the conventional CalVer tokens (https://calver.org):
+ *   YYYY (2024), YY (24), 0Y (024), MM (1..12), 0M (01..12), WW (1..53), 0W (01..53),
+ *   DD (1..31), 0D (01..31), MAJOR, MINOR, MICRO (any integer)
+ * Any other characters in the layout are matched literally.
+ * A trailing modifier separated by "-" (e.g. "2025.01.15-1") is treated as a revision.
+ */
+
+type CalverToken =
+  | 'YYYY'
+  | 'YY'
+  | '0Y'
+  | 'MM'
+  | '0M'
+  | 'WW'
+  | '0W'
+  | 'DD'
+  | '0D'
+  | 'MAJOR'
+  | 'MINOR'
+  | 'MICRO';
+
+const TOKEN_PATTERNS: Record<CalverToken, string> = {
+  YYYY: '(\\d{4})',
+  YY: '([1-9]\\d{0,2}|0)',
+  '0Y': '(\\d{2,3})',
+  MM: '([1-9]|1[0-2])',
+  '0M': '(0[1-9]|1[0-2])',
+  WW: '([1-9]|[1-4]\\d|5[0-3])',
+  '0W': '(0[1-9]|[1-4]\\d|5[0-3])',
+  DD: '([1-9]|[12]\\d|3[01])',
+  '0D': '(0[1-9]|[12]\\d|3[01])',
+  MAJOR: '(\\d+)',
+  MINOR: '(\\d+)',
+  MICRO: '(\\d+)',
+};
+
+// Longest tokens first so "YYYY" is not read as two "YY"
+const TOKEN_REGEX = /MAJOR|MINOR|MICRO|YYYY|YY|0Y|MM|0M|WW|0W|DD|0D/g;
+
+/**
+ * Compiled CalVer layout
+ */
+export interface CalverLayout {
+  layout: string;
+  tokens: CalverToken[];
+  regex: RegExp;
+}
+
+/**
+ * Parsed CalVer version
+ * values holds the numeric components in layout order, with short years
+ * normalized to full years (24 → 2024)
+ */
+export interface CalverParts {
+  values: number[];
+  modifier?: string;
+}
+
+/**
+ * Compile a CalVer layout such as "YYYY.MM.DD" or "YY.0M.MICRO"
+ *
+ * @throws Error if the layout contains no CalVer tokens
+ */
+export function compileCalverLayout(layout: string): CalverLayout {
+  const trimmed = layout.trim();
+  const tokens: CalverToken[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+
+  for (const tokenMatch of trimmed.matchAll(TOKEN_REGEX)) {
+    const index = tokenMatch.index ?? 0;
+    pattern += escapeLiteral(trimmed.slice(lastIndex, index));
+    const token = tokenMatch[0] as CalverToken;
+    pattern += TOKEN_PATTERNS[token];
+    tokens.push(token);
+    lastIndex = index + token.length;
+  }
+  pattern += escapeLiteral(trimmed.slice(lastIndex));
+
+  if (tokens.length === 0) {
+    throw new Error(
+      `Invalid CalVer layout "${layout}": expected tokens such as YYYY, YY, 0M, MM, DD, MAJOR, MINOR or MICRO`
+    );
+  }
+
+  return {
+    layout: trimmed,
+    tokens,
+    // Optional "v" prefix and "-modifier" suffix
+    regex: new RegExp(`^v?${pattern}(?:-([0-9A-Za-z.-]+))?$`, 'i'),
+  };
+}
+
+function escapeLiteral(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toLayout(layout: string | CalverLayout): CalverLayout {
+  return typeof layout === 'string' ? compileCalverLayout(layout) : layout;
+}
+
+/**
+ * Parse a CalVer version from tag name
+ * Examples with layout "YYYY.0M.0D": "2025.01.15" → [2025, 1, 15], "2025.01.15-1" → [2025, 1, 15] + "1"
+ */
+export function parseCalver(tagName: string, layout: string | CalverLayout): CalverParts | null {
+  const compiled = toLayout(layout);
+  const match = tagName.match(compiled.regex);
+
+  if (!match) {
+    return null;
+  }
+
+  const values = compiled.tokens.map((token, i) => {
+    const value = parseInt(match[i + 1], 10);
+    // Short years are relative to 2000 in CalVer (YY: 6 → 2006, 0Y: 06 → 2006)
+    return token === 'YY' || token === '0Y' ? 2000 + value : value;
+  });
+
+  const modifier = match[compiled.tokens.length + 1];
+  return modifier ? { values, modifier } : { values };
+}
+
+/**
+ * Check if tag name follows the given CalVer layout
+ */
+export function isCalver(tagName: string, layout: string | CalverLayout): boolean {
+  return parseCalver(tagName, layout) !== null;
+}
+
+/**
+ * Compare two revision modifiers: numeric modifiers numerically, otherwise lexically
+ */
+function compareModifier(modifier1?: string, modifier2?: string): number {
+  if (modifier1 === modifier2) return 0;
+  // A revision is newer than the unrevised version
+  if (modifier1 === undefined) return -1;
+  if (modifier2 === undefined) return 1;
+
+  const isNum1 = /^\d+$/.test(modifier1);
+  const isNum2 = /^\d+$/.test(modifier2);
+  if (isNum1 && isNum2) {
+    const num1 = parseInt(modifier1, 10);
+    const num2 = parseInt(modifier2, 10);
+    if (num1 !== num2) return num1 > num2 ? 1 : -1;
+    return 0;
+  }
+  return modifier1 > modifier2 ? 1 : -1;
+}
+
+/**
+ * Compare two CalVer tags using the given layout
+ * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ */
+export function compareCalver(tag1: string, tag2: string, layout: string | CalverLayout): number {
+  const compiled = toLayout(layout);
+  const calver1 = parseCalver(tag1, compiled);
+  const calver2 = parseCalver(tag2, compiled);
+
+  // If either is not CalVer, they're equal for comparison purposes
+  if (!calver1 || !calver2) {
+    return 0;
+  }
+
+  for (let i = 0; i < calver1.values.length; i++) {
+    if (calver1.values[i] !== calver2.values[i]) {
+      return calver1.values[i] > calver2.values[i] ? 1 : -1;
+    }
+  }
+
+  return compareModifier(calver1.modifier, calver2.modifier);
+}
@@ -1,12 +1,30 @@
 import * as core from '@actions/core';
 import { Platform } from './types';
 import { parseTagFormat } from './format-parser';
+import {
+  TagFormatMode,
+  TAG_FORMAT_MODES,
+  TagFormatMatchMode,
+  TAG_FORMAT_MATCH_MODES,
+  isTemplatePattern,
+  compileTemplatePattern,
+  validateFormatPattern,
+  getFormatGroupNames,
+} from './format-matcher';
+import { parseVersionRange } from './version-range';
+import { compileCalverLayout } from './calver';
+import { SortStrategyName, SORT_STRATEGY_NAMES, VersionScheme, VERSION_SCHEMES } from './sort-strategies';
+import { getTagPrefixes } from './tag-prefix';
+import { SemverBump, SEMVER_BUMPS } from './semver';
 
 /**
  * Action inputs interface
  */
 export interface ActionInputs {
+  /** First entry of tag_name; the single-item outputs describe it */
   tagName: string;
+  /** All entries of tag_name (JSON array or comma-separated list) */
+  tagNames: string[];
   tagType: 'tags' | 'release';
   repository?: string;
   platform?: string;
@@ -16,6 +34,25 @@ export interface ActionInputs {
   token?: string;
   ignoreCertErrors: boolean;
   tagFormat?: string[];
+  tagFormatMode: TagFormatMode;
+  tagFormatMatch: TagFormatMatchMode;
+  tagExclude?: string[];
+  versionConstraint?: string;
+  prereleasePolicy: string;
+  previousOf?: string;
+  calverFormat?: string;
+  sortBy: SortStrategyName;
+  versionScheme: VersionScheme;
+  tagPrefixes?: string[];
+  bump?: SemverBump | 'auto';
+  explainFormat: boolean;
+  failIfMissing: boolean;
+  requireAnnotated: boolean;
+  requireVerified: boolean;
+  forbidDraft: boolean;
+  forbidPrerelease: boolean;
+  exportEnv: boolean;
+  envPrefix: string;
   verbose: boolean;
 }
 
@@ -46,6 +83,7 @@ export function getInputs(): ActionInputs {
   if (!tagName || tagName.trim() === '') {
     throw new Error('tag_name is required and cannot be empty');
   }
+  const tagNames = parseTagFormat(tagName, 'tag_name') ?? [];
 
   const tagTypeInput = core.getInput('tag_type') || 'tags';
   if (tagTypeInput !== 'tags' && tagTypeInput !== 'release') {
@@ -62,8 +100,106 @@ export function getInputs(): ActionInputs {
   const ignoreCertErrors = getBooleanInput('ignore_cert_errors', false);
   const tagFormatInput = getOptionalInput('tag_format');
   const tagFormat = parseTagFormat(tagFormatInput);
+  const tagFormatModeInput = (core.getInput('tag_format_mode') || 'fallback').trim().toLowerCase();
+  if (!TAG_FORMAT_MODES.includes(tagFormatModeInput as TagFormatMode)) {
+    throw new Error(`Invalid tag_format_mode: ${tagFormatModeInput}. Must be one of: ${TAG_FORMAT_MODES.join(', ')}`);
+  }
+  const tagFormatMode = tagFormatModeInput as TagFormatMode;
+  const tagFormatMatchInput = (core.getInput('tag_format_match') || 'auto').trim().toLowerCase();
+  if (!TAG_FORMAT_MATCH_MODES.includes(tagFormatMatchInput as TagFormatMatchMode)) {
+    throw new Error(
+      `Invalid tag_format_match: ${tagFormatMatchInput}. Must be one of: ${TAG_FORMAT_MATCH_MODES.join(', ')}`
+    );
+  }
+  const tagFormatMatch = tagFormatMatchInput as TagFormatMatchMode;
+  const tagExclude = parseTagFormat(getOptionalInput('tag_exclude'), 'tag_exclude');
+  const versionConstraint = getOptionalInput('version_constraint')?.trim();
+  const previousOf = getOptionalInput('previous_of')?.trim();
+  const calverFormat = getOptionalInput('calver_format')?.trim();
+  const sortByInput = (core.getInput('sort_by') || 'auto').trim().toLowerCase();
+  if (!SORT_STRATEGY_NAMES.includes(sortByInput as SortStrategyName)) {
+    throw new Error(`Invalid sort_by: ${sortByInput}. Must be one of: ${SORT_STRATEGY_NAMES.join(', ')}`);
+  }
+  const sortBy = sortByInput as SortStrategyName;
+  const versionSchemeInput = (core.getInput('version_scheme') || 'semver').trim().toLowerCase();
+  if (!VERSION_SCHEMES.includes(versionSchemeInput as VersionScheme)) {
+    throw new Error(`Invalid version_scheme: ${versionSchemeInput}. Must be one of: ${VERSION_SCHEMES.join(', ')}`);
+  }
+  const versionScheme = versionSchemeInput as VersionScheme;
+  const tagPrefixes = getTagPrefixes(
+    getOptionalInput('tag_prefix')?.trim() || undefined,
+    getOptionalInput('component')?.trim() || undefined
+  );
+  const templatePatterns = (tagFormat ?? []).filter((pattern) => !pattern.startsWith('!') && isTemplatePattern(pattern));
+  if (sortBy === 'template' && templatePatterns.length === 0) {
+    throw new Error("sort_by 'template' requires a template tag_format (e.g., '{major}.{minor}-ls{build}')");
+  }
+  if (sortBy === 'calver' && !calverFormat) {
+    throw new Error("sort_by 'calver' requires calver_format to be set (e.g., 'YYYY.MM.DD')");
+  }
+  const prereleasePolicy = (core.getInput('prerelease_policy') || 'include').trim().toLowerCase();
+  if (prereleasePolicy !== 'include' && prereleasePolicy !== 'exclude' && !/^[a-z]+$/.test(prereleasePolicy)) {
+    throw new Error(
+      `Invalid prerelease_policy: ${prereleasePolicy}. Must be 'include', 'exclude', or a channel name (e.g., 'rc', 'beta', 'alpha')`
+    );
+  }
+  const bumpInput = getOptionalInput('bump')?.trim().toLowerCase();
+  if (bumpInput && bumpInput !== 'auto' && !SEMVER_BUMPS.includes(bumpInput as SemverBump)) {
+    throw new Error(`Invalid bump: ${bumpInput}. Must be 'auto' or one of: ${SEMVER_BUMPS.join(', ')}`);
+  }
+  const bump = bumpInput ? (bumpInput as SemverBump | 'auto') : undefined;
+  const explainFormat = getBooleanInput('explain_format', false);
+  const failIfMissing = getBooleanInput('fail_if_missing', false);
+  const requireAnnotated = getBooleanInput('require_annotated', false);
+  const requireVerified = getBooleanInput('require_verified', false);
+  const forbidDraft = getBooleanInput('forbid_draft', false);
+  const forbidPrerelease = getBooleanInput('forbid_prerelease', false);
+  if (tagType === 'release' && (requireAnnotated || requireVerified)) {
+    throw new Error("require_annotated and require_verified apply to tags only, not with tag_type 'release'");
+  }
+  const exportEnv = getBooleanInput('export_env', false);
+  const envPrefix = core.getInput('env_prefix').trim();
+  if (envPrefix && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(envPrefix)) {
+    throw new Error(
+      `Invalid env_prefix: ${envPrefix}. Must start with a letter or "_" and contain only letters, digits and "_"`
+    );
+  }
+  if (envPrefix.toUpperCase().startsWith('GITHUB_')) {
+    throw new Error(`Invalid env_prefix: ${envPrefix}. Environment variables starting with GITHUB_ are reserved`);
+  }
   const verbose = getBooleanInput('verbose', false);
 
+  // Validate version constraint syntax early so errors point at the input
+  if (versionConstraint) {
+    parseVersionRange(versionConstraint);
+  }
+
+  // Validate template syntax early so errors point at the input
+  for (const pattern of tagFormat ?? []) {
+    if (isTemplatePattern(pattern)) {
+      compileTemplatePattern(pattern.replace(/^!/, ''));
+    }
+  }
+
+  // Reject unsupported regex flags and regexes prone to catastrophic backtracking
+  for (const pattern of [...(tagFormat ?? []), ...(tagExclude ?? [])]) {
+    validateFormatPattern(pattern);
+  }
+
+  // Groups are published as match_<group> outputs next to match_json (negations publish none)
+  for (const pattern of (tagFormat ?? []).filter((format) => !format.startsWith('!'))) {
+    if (getFormatGroupNames(pattern).some((group) => group.toLowerCase() === 'json')) {
+      throw new Error(
+        `Invalid tag_format "${pattern}": a group named "json" would overwrite the match_json output, use another name`
+      );
+    }
+  }
+
+  // Validate CalVer layout if provided
+  if (calverFormat) {
+    compileCalverLayout(calverFormat);
+  }
+
   // Validate base URL format if provided
   if (baseUrl) {
     try {
@@ -74,7 +210,8 @@ export function getInputs(): ActionInputs {
   }
 
   return {
-    tagName: tagName.trim(),
+    tagName: tagNames[0],
+    tagNames,
     tagType,
     repository: repository?.trim(),
     platform: platform?.trim(),
@@ -84,6 +221,25 @@ export function getInputs(): ActionInputs {
     token: token?.trim() || undefined,
     ignoreCertErrors,
     tagFormat,
+    tagFormatMode,
+    tagFormatMatch,
+    tagExclude,
+    versionConstraint: versionConstraint || undefined,
+    prereleasePolicy,
+    previousOf: previousOf || undefined,
+    calverFormat: calverFormat || undefined,
+    sortBy,
+    versionScheme,
+    tagPrefixes,
+    bump,
+    explainFormat,
+    failIfMissing,
+    requireAnnotated,
+    requireVerified,
+    forbidDraft,
+    forbidPrerelease,
+    exportEnv,
+    envPrefix,
     verbose,
   };
 }
@@ -0,0 +1,94 @@
+/**
+ * Conventional Commits analysis (https://www.conventionalcommits.org)
+ * Infers the semver bump level from the commits made since a tag
+ */
+
+import { CommitSummary } from './types';
+
+/**
+ * Inferred bump level ("none" when no commit warrants a release)
+ */
+export type BumpType = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Parsed commit; commits that do not follow the convention get type "other"
+ */
+export interface ConventionalCommit {
+  sha: string;
+  type: string;
+  scope?: string;
+  description: string;
+  breaking: boolean;
+}
+
+/**
+ * Result of analyzing a list of commits
+ */
+export interface CommitAnalysis {
+  bump: BumpType;
+  /** Commits grouped by type, in the order types were first seen */
+  groups: Record<string, ConventionalCommit[]>;
+}
+
+// Commit types that trigger a patch release (same defaults as semantic-release)
+const PATCH_TYPES = ['fix', 'perf'];
+
+/**
+ * Parse a commit message as a Conventional Commit
+ * Examples: "feat(api): add endpoint", "fix!: drop node 16", "chore: bump deps"
+ * A "BREAKING CHANGE:" (or "BREAKING-CHANGE:") footer marks the commit as breaking
+ *
+ * @returns Parsed commit, or undefined if the header does not follow the convention
+ */
+export function parseConventionalCommit(commit: CommitSummary): ConventionalCommit | undefined {
+  const [header, ...body] = commit.message.trim().split('\n');
+  const headerMatch = header.trim().match(/^([A-Za-z]+)(?:\(([^()]*)\))?(!)?:\s+(.+)$/);
+
+  if (!headerMatch) {
+    return undefined;
+  }
+
+  const parsed: ConventionalCommit = {
+    sha: commit.sha,
+    type: headerMatch[1].toLowerCase(),
+    description: headerMatch[4].trim(),
+    breaking: !!headerMatch[3] || /^BREAKING[ -]CHANGE:/m.test(body.join('\n')),
+  };
+  if (headerMatch[2]) {
+    parsed.scope = headerMatch[2].trim();
+  }
+  return parsed;
+}
+
+/**
+ * Analyze commits and infer the bump level:
+ * - any breaking change → major
+ * - any "feat" → minor
+ * - any "fix" or "perf" → patch
+ * - otherwise → none
+ */
+export function analyzeCommits(commits: CommitSummary[]): CommitAnalysis {
+  const groups: Record<string, ConventionalCommit[]> = {};
+  let bump: BumpType = 'none';
+
+  for (const commit of commits) {
+    const parsed = parseConventionalCommit(commit) ?? {
+      sha: commit.sha,
+      type: 'other',
+      description: commit.message.trim().split('\n')[0],
+      breaking: false,
+    };
+
+    (groups[parsed.type] ??= []).push(parsed);
+
+    if (parsed.breaking) {
+      bump = 'major';
+    } else if (parsed.type === 'feat' && bump !== 'major') {
+      bump = 'minor';
+    } else if (PATCH_TYPES.includes(parsed.type) && bump === 'none') {
+      bump = 'patch';
+    }
+  }
+
+  return { bump, groups };
+}
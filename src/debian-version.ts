@@ -0,0 +1,137 @@
+/**
+ * Debian package version utilities, following dpkg's version comparison
+ * Format: [epoch:]upstream_version[-debian_revision], e.g. "1:2.30-1", "2.0~rc1-3"
+ * Git tags cannot contain ":" or "~", so the DEP-14 encoding is accepted as well:
+ * "%" for the epoch separator and "_" for "~" (e.g. "1%2.30-1", "2.0_rc1-3")
+ * See https://www.debian.org/doc/debian-policy/ch-controlfields.html#version
+ */
+
+export interface DebianVersionParts {
+  epoch: number;
+  upstream: string;
+  revision: string;
+}
+
+/**
+ * Parse a Debian version from tag name
+ * The revision is everything after the last "-" ("" if there is none)
+ */
+export function parseDebianVersion(tagName: string): DebianVersionParts | null {
+  // Decode DEP-14: "%" → ":", "_" → "~"
+  const decoded = tagName.replace(/%/g, ':').replace(/_/g, '~');
+  const match = decoded.match(/^(?:(\d+):)?(\d[A-Za-z0-9.+~-]*?)(?:-([A-Za-z0-9.+~]+))?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    epoch: match[1] ? parseInt(match[1], 10) : 0,
+    upstream: match[2],
+    revision: match[3] ?? '',
+  };
+}
+
+/**
+ * Check if tag name is a Debian version
+ */
+export function isDebianVersion(tagName: string): boolean {
+  return parseDebianVersion(tagName) !== null;
+}
+
+/**
+ * Get the pre-release part of a Debian version: the upstream version after its first "~"
+ * Examples: "2.0~rc1-3" → "rc1", "2.0_beta2" (DEP-14) → "beta2", "2.0-1" → undefined
+ */
+export function getDebianPrerelease(tagName: string): string | undefined {
+  const upstream = parseDebianVersion(tagName)?.upstream;
+  const index = upstream?.indexOf('~') ?? -1;
+  return upstream && index !== -1 ? upstream.slice(index + 1) : undefined;
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
+
+/**
+ * Sort weight of a character in the non-digit parts: "~" sorts before everything
+ * (even the end of the string), letters before other characters
+ */
+function order(char: string | undefined): number {
+  if (char === undefined || isDigit(char)) return 0;
+  if (char === '~') return -1;
+  if (/[A-Za-z]/.test(char)) return char.charCodeAt(0);
+  return char.charCodeAt(0) + 256;
+}
+
+/**
+ * Compare upstream versions or revisions like dpkg's verrevcmp: alternating
+ * non-digit parts (compared by character weight) and digit parts (compared numerically)
+ * Returns: -1 if a < b, 0 if a === b, 1 if a > b
+ */
+export function compareDebianPart(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    while ((i < a.length && !isDigit(a[i])) || (j < b.length && !isDigit(b[j]))) {
+      const weightA = order(a[i]);
+      const weightB = order(b[j]);
+      if (weightA !== weightB) {
+        return weightA > weightB ? 1 : -1;
+      }
+      i++;
+      j++;
+    }
+
+    while (a[i] === '0') i++;
+    while (b[j] === '0') j++;
+
+    let firstDiff = 0;
+    while (isDigit(a[i]) && isDigit(b[j])) {
+      if (firstDiff === 0) {
+        firstDiff = a.charCodeAt(i) - b.charCodeAt(j);
+      }
+      i++;
+      j++;
+    }
+    // The longer digit run is the larger number
+    if (isDigit(a[i])) return 1;
+    if (isDigit(b[j])) return -1;
+    if (firstDiff !== 0) {
+      return firstDiff > 0 ? 1 : -1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two parsed Debian versions: epoch, then upstream version, then revision
+ * Returns: -1 if version1 < version2, 0 if equal, 1 if version1 > version2
+ */
+export function compareDebianVersionParts(version1: DebianVersionParts, version2: DebianVersionParts): number {
+  if (version1.epoch !== version2.epoch) {
+    return version1.epoch > version2.epoch ? 1 : -1;
+  }
+  return (
+    compareDebianPart(version1.upstream, version2.upstream) ||
+    compareDebianPart(version1.revision, version2.revision)
+  );
+}
+
+/**
+ * Compare two Debian version tags
+ * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ */
+export function compareDebianVersion(tag1: string, tag2: string): number {
+  const version1 = parseDebianVersion(tag1);
+  const version2 = parseDebianVersion(tag2);
+
+  // If either is not a Debian version, they're equal for comparison purposes
+  if (!version1 || !version2) {
+    return 0;
+  }
+
+  return compareDebianVersionParts(version1, version2);
+}
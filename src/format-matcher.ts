@@ -2,6 +2,26 @@
  * Format matching utilities for tag filtering
  */
 
+import { Logger } from './logger';
+import { assertSafeRegex } from './regex-safety';
+
+/**
+ * How multiple tag_format patterns are combined:
+ * - fallback: the first pattern matching any tag wins
+ * - union: tags matching any pattern
+ * - all: tags matching every pattern
+ */
+export type TagFormatMode = 'fallback' | 'union' | 'all';
+
+export const TAG_FORMAT_MODES: TagFormatMode[] = ['fallback', 'union', 'all'];
+
+/**
+ * How a single pattern is matched against a tag name (see matchTagFormatDetails)
+ */
+export type TagFormatMatchMode = 'auto' | 'strict' | 'prefix';
+
+export const TAG_FORMAT_MATCH_MODES: TagFormatMatchMode[] = ['auto', 'strict', 'prefix'];
+
 /**
  * Check if a format string is a simple pattern (e.g., "X.X" or "X.X.X")
  * Simple patterns use X as a placeholder for numbers
@@ -24,6 +44,125 @@ export function isWildcardPattern(format: string): boolean {
   return wildcardPatternRegex.test(format);
 }
 
+/**
+ * Prefix forcing the glob reading of a pattern (e.g. "glob:v{1,2}.*", where "{1,2}" would be a regex quantifier)
+ */
+export const GLOB_PREFIX = 'glob:';
+
+/**
+ * Check if a format string is a glob pattern (e.g., "release-*", "v1.?.*", "[0-9]*.x", "v*-{rc,beta}*", "**\/v*")
+ * Globs support *, **, ?, character classes ([0-9], [!a-z]) and brace alternation ({rc,beta})
+ * Patterns with regex-only syntax (anchors, groups, +, |, backslashes, {n,m} quantifiers) are not globs
+ * unless they have the "glob:" prefix
+ */
+export function isGlobPattern(format: string): boolean {
+  if (format.startsWith(GLOB_PREFIX)) {
+    return true;
+  }
+  if (format.startsWith('^') || format.startsWith('/')) {
+    return false;
+  }
+  if (/[()+|\\$]/.test(format) || /\{\d+(,\d*)?\}/.test(format)) {
+    return false;
+  }
+  return /[*?[{]/.test(format);
+}
+
+/**
+ * Warning for a pattern that is read as a glob but is also a valid regex, as such patterns
+ * were matched as regexes before globs were supported
+ * Example: "v?1.*" is the glob "v", any character, "1." and anything, while the regex
+ * reading ("^v?1.*") is an optional "v", "1" and anything
+ *
+ * @returns The warning, or undefined if the pattern has only one reading
+ */
+export function getAmbiguousGlobWarning(format: string): string | undefined {
+  const pattern = format.replace(/^!/, '');
+  if (
+    isSimplePattern(pattern) ||
+    isWildcardPattern(pattern) ||
+    isTemplatePattern(pattern) ||
+    pattern.startsWith(GLOB_PREFIX) ||
+    !isGlobPattern(pattern) ||
+    !isRegexPattern(pattern)
+  ) {
+    return undefined;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+  return (
+    `Pattern "${format}" is matched as a glob, but is also a valid regex. ` +
+    `Write "^${pattern}" to match it as a regex, or "glob:${pattern}" to keep the glob reading without this warning`
+  );
+}
+
+/**
+ * Convert a glob pattern to a regex
+ * "release-*" → /^release-[^/]*$/
+ * "v1.?.*" → /^v1\.[^/]\.[^/]*$/
+ * "**\/v*" → /^(?:.*\/)?v[^/]*$/
+ * "*-{rc,beta}.*" → /^[^/]*-(?:rc|beta)\.[^/]*$/
+ * A "glob:" prefix is removed first
+ *
+ * @throws Error if a brace group is not closed
+ */
+export function convertGlobPatternToRegex(pattern: string): RegExp {
+  const format = pattern.startsWith(GLOB_PREFIX) ? pattern.slice(GLOB_PREFIX.length) : pattern;
+  let regexPattern = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < format.length; i++) {
+    const char = format[i];
+
+    if (char === '*') {
+      if (format[i + 1] === '*') {
+        // "**" crosses "/" separators; "**/" also matches no directory at all
+        i++;
+        if (format[i + 1] === '/') {
+          i++;
+          regexPattern += '(?:.*/)?';
+        } else {
+          regexPattern += '.*';
+        }
+      } else {
+        regexPattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      regexPattern += '[^/]';
+    } else if (char === '[') {
+      // "]" right after the opening bracket (or its negation) is a literal member
+      const start = format[i + 1] === '!' || format[i + 1] === '^' ? i + 2 : i + 1;
+      const end = format.indexOf(']', format[start] === ']' ? start + 1 : start);
+      if (end === -1) {
+        regexPattern += '\\[';
+      } else {
+        const members = format.slice(start, end).replace(/[\\^[]/g, '\\$&');
+        regexPattern += `[${start === i + 2 ? '^' : ''}${members}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      regexPattern += '(?:';
+    } else if (char === ',' && braceDepth > 0) {
+      regexPattern += '|';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regexPattern += ')';
+    } else {
+      regexPattern += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob pattern "${format}": unclosed "{"`);
+  }
+
+  return new RegExp(`^${regexPattern}$`);
+}
+
 /**
  * Convert a simple pattern to a regex
  * "X.X" → /^\d+\.\d+$/
@@ -60,6 +199,141 @@ export function convertWildcardPatternToRegex(format: string): RegExp {
   return new RegExp(regexPattern);
 }
 
+/**
+ * Placeholder types of tag format templates
+ * - int: digits, compared numerically when sorting
+ * - hex: hexadecimal digits (e.g. commit SHAs)
+ * - alpha: letters
+ * - alnum: letters and digits
+ * - str: any characters (shortest match)
+ * A width suffix fixes the length: "hex8" → exactly 8 hex digits
+ */
+export type TemplatePlaceholderType = 'int' | 'hex' | 'alpha' | 'alnum' | 'str';
+
+const TEMPLATE_TYPE_PATTERNS: Record<TemplatePlaceholderType, string> = {
+  int: '\\d',
+  hex: '[0-9a-fA-F]',
+  alpha: '[A-Za-z]',
+  alnum: '[0-9A-Za-z]',
+  str: '.',
+};
+
+// Untyped placeholders with these names are integers; any other untyped placeholder is "str"
+const INT_PLACEHOLDER_NAMES = ['major', 'minor', 'patch', 'micro', 'build', 'revision'];
+
+/**
+ * Placeholder of a tag format template
+ */
+export interface TemplatePlaceholder {
+  name: string;
+  type: TemplatePlaceholderType;
+  width?: number;
+}
+
+/**
+ * Compiled tag format template
+ */
+export interface TagTemplate {
+  template: string;
+  placeholders: TemplatePlaceholder[];
+  regex: RegExp;
+}
+
+/**
+ * Typed components parsed from a tag with a template (int placeholders are numbers)
+ */
+export type TemplateComponents = Record<string, number | string>;
+
+const PLACEHOLDER_REGEX = /\{([A-Za-z_]\w*)(?::([A-Za-z]+\d*))?\}/g;
+
+/**
+ * Check if a format string is a template pattern (e.g., "{major}.{minor}.{patch}-{sha:hex8}-ls{build:int}")
+ * Templates contain {name} or {name:type} placeholders
+ */
+export function isTemplatePattern(format: string): boolean {
+  return new RegExp(PLACEHOLDER_REGEX.source).test(format);
+}
+
+/**
+ * Compile a template pattern to a regex with one named group per placeholder
+ * "{major}.{minor}-ls{build}" → /^(?<major>\d+)\.(?<minor>\d+)-ls(?<build>\d+)$/
+ *
+ * @throws Error if a placeholder type is unknown, a placeholder name is repeated, or the
+ *   placeholders can split a tag in so many ways that matching backtracks excessively
+ */
+export function compileTemplatePattern(format: string): TagTemplate {
+  const placeholders: TemplatePlaceholder[] = [];
+  let regexPattern = '';
+  let lastIndex = 0;
+
+  for (const placeholderMatch of format.matchAll(PLACEHOLDER_REGEX)) {
+    const index = placeholderMatch.index ?? 0;
+    const name = placeholderMatch[1];
+    const typeSpec = placeholderMatch[2];
+
+    let type: TemplatePlaceholderType = INT_PLACEHOLDER_NAMES.includes(name) ? 'int' : 'str';
+    let width: number | undefined;
+    if (typeSpec) {
+      const typeMatch = typeSpec.match(/^(int|hex|alpha|alnum|str)(\d+)?$/);
+      if (!typeMatch) {
+        throw new Error(
+          `Invalid tag format template "${format}": unknown placeholder type "${typeSpec}" (expected int, hex, alpha, alnum or str, optionally with a width such as hex8)`
+        );
+      }
+      type = typeMatch[1] as TemplatePlaceholderType;
+      width = typeMatch[2] ? parseInt(typeMatch[2], 10) : undefined;
+    }
+
+    if (placeholders.some((placeholder) => placeholder.name === name)) {
+      throw new Error(`Invalid tag format template "${format}": placeholder "${name}" is used more than once`);
+    }
+
+    const quantifier = width ? `{${width}}` : type === 'str' ? '+?' : '+';
+    regexPattern += escapeRegex(format.slice(lastIndex, index));
+    regexPattern += `(?<${name}>${TEMPLATE_TYPE_PATTERNS[type]}${quantifier})`;
+    placeholders.push(width ? { name, type, width } : { name, type });
+    lastIndex = index + placeholderMatch[0].length;
+  }
+  regexPattern += escapeRegex(format.slice(lastIndex));
+  assertSafeRegex(`^${regexPattern}$`, format, '', 'tag format template');
+
+  return {
+    template: format,
+    placeholders,
+    regex: new RegExp(`^${regexPattern}$`),
+  };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Parse the typed components of a tag with a template
+ * "3.23-bae0df8a-ls3" with "{major}.{minor}-{sha:hex8}-ls{build:int}"
+ *   → { major: 3, minor: 23, sha: "bae0df8a", build: 3 }
+ *
+ * @returns Components, or undefined if the tag does not match the template
+ */
+export function parseTemplateComponents(
+  tagName: string,
+  template: string | TagTemplate
+): TemplateComponents | undefined {
+  const compiled = typeof template === 'string' ? compileTemplatePattern(template) : template;
+  const match = compiled.regex.exec(tagName);
+
+  if (!match || !match.groups) {
+    return undefined;
+  }
+
+  const components: TemplateComponents = {};
+  for (const placeholder of compiled.placeholders) {
+    const value = match.groups[placeholder.name];
+    components[placeholder.name] = placeholder.type === 'int' ? parseInt(value, 10) : value;
+  }
+  return components;
+}
+
 /**
  * Check if a format string looks like a regex pattern
  * Regex patterns typically start with ^ or contain regex special characters
@@ -77,6 +351,36 @@ export function isRegexPattern(format: string): boolean {
   return regexSpecialChars.test(format);
 }
 
+/**
+ * Regex flags accepted in slash-delimited patterns
+ * (g and y are stateful and would make repeated matching unreliable)
+ */
+const REGEX_FLAGS = ['i', 'm', 's', 'u'];
+
+/**
+ * Split a regex pattern into source and flags
+ * "/^V\d+$/i" → { source: "^V\d+$", flags: "i" }, "^v\d+$" → { source: "^v\d+$", flags: "" }
+ *
+ * @throws Error if a slash-delimited pattern has unsupported or repeated flags
+ */
+export function parseRegexPattern(format: string): { source: string; flags: string } {
+  const delimited = format.match(/^\/(.*)\/([A-Za-z]*)$/s);
+  if (!delimited) {
+    // Remove a stray leading/trailing slash (e.g., "/pattern" → "pattern")
+    return { source: format.replace(/^\/|\/$/g, ''), flags: '' };
+  }
+
+  const flags = delimited[2];
+  for (const [i, flag] of [...flags].entries()) {
+    if (!REGEX_FLAGS.includes(flag) || flags.indexOf(flag) !== i) {
+      throw new Error(
+        `Invalid regex flags "${flags}" in pattern "${format}": supported flags are ${REGEX_FLAGS.join(', ')} (each at most once)`
+      );
+    }
+  }
+  return { source: delimited[1], flags };
+}
+
 /**
  * Extract prefix from tag name (before first non-numeric/non-dot character)
  * Used for prefix matching with numeric patterns (X.X)
@@ -108,78 +412,295 @@ function extractWildcardPrefix(tagName: string): string {
 }
 
 /**
- * Match a tag name against a format pattern
- * Supports both full match and prefix match
- * 
- * @param tagName - The tag name to match
- * @param format - The format pattern (simple like "X.X" or regex)
- * @returns true if tag matches the format
+ * Collect named capture groups of a regex match (groups that did not participate are "")
  */
-export function matchTagFormat(tagName: string, format: string): boolean {
-  if (!format || !tagName) {
-    return false;
+function toGroups(match: RegExpExecArray): Record<string, string> {
+  const groups: Record<string, string> = {};
+  for (const [name, value] of Object.entries(match.groups ?? {})) {
+    groups[name] = value ?? '';
   }
+  return groups;
+}
+
+/**
+ * Result of matching a tag name against a format pattern
+ */
+export interface TagFormatMatch {
+  /** Named capture groups ({} for patterns without named groups) */
+  groups: Record<string, string>;
+  /** Whether the pattern matched the whole tag name or only its beginning */
+  matchedBy: 'full' | 'prefix';
+  /** The part of the tag name the pattern matched */
+  matchedText: string;
+  /** Kind of pattern that decided the match */
+  kind: FormatPatternKind;
+}
+
+/**
+ * Kind of a format pattern, as detected from its syntax ("negation" for "!pattern")
+ */
+export type FormatPatternKind = 'simple' | 'wildcard' | 'template' | 'glob' | 'regex' | 'literal' | 'negation';
 
-  let regex: RegExp;
-  let isWildcard = false;
+type FormatKind = Exclude<FormatPatternKind, 'negation'> | 'regex-anchored';
 
-  // Determine if it's a simple pattern, wildcard pattern, or regex
+interface CompiledFormat {
+  regex: RegExp;
+  kind: FormatKind;
+}
+
+/**
+ * Build the full-match regex for a regex pattern
+ *
+ * @returns The regex, or undefined if its syntax is invalid
+ * @throws Error for unsupported flags or a regex prone to catastrophic backtracking
+ */
+function compileRegexFormat(format: string): CompiledFormat | undefined {
+  const { source, flags } = parseRegexPattern(format);
+  assertSafeRegex(source, format, flags);
+
+  // If it doesn't start with ^, add it for full match
+  let regexStr = source.startsWith('^') ? source : `^${source}`;
+
+  // If it doesn't end with $, add it for full match
+  // (an explicit "$" also anchors the end in prefix mode)
+  const anchored = regexStr.endsWith('$');
+  if (!anchored) {
+    regexStr = `${regexStr}$`;
+  }
+
+  try {
+    return { regex: new RegExp(regexStr, flags), kind: anchored ? 'regex-anchored' : 'regex' };
+  } catch {
+    // Invalid regex, no match
+    return undefined;
+  }
+}
+
+/**
+ * Build the full-match regex for a format pattern
+ *
+ * @returns The regex and the pattern kind, or undefined if the pattern is invalid
+ * @throws Error for regex patterns with unsupported flags or catastrophic backtracking
+ */
+function compileFormat(format: string): CompiledFormat | undefined {
   if (isSimplePattern(format)) {
-    regex = convertSimplePatternToRegex(format);
-  } else if (isWildcardPattern(format)) {
-    regex = convertWildcardPatternToRegex(format);
-    isWildcard = true;
-  } else if (isRegexPattern(format)) {
-    // Handle regex patterns
-    // Remove leading/trailing slashes if present (e.g., "/pattern/" → "pattern")
-    let regexStr = format.replace(/^\/|\/$/g, '');
-    
-    // If it doesn't start with ^, add it for full match
-    if (!regexStr.startsWith('^')) {
-      regexStr = `^${regexStr}`;
+    return { regex: convertSimplePatternToRegex(format), kind: 'simple' };
+  }
+  if (isWildcardPattern(format)) {
+    return { regex: convertWildcardPatternToRegex(format), kind: 'wildcard' };
+  }
+  try {
+    if (format.startsWith(GLOB_PREFIX)) {
+      return { regex: convertGlobPatternToRegex(format), kind: 'glob' };
     }
-    
-    // If it doesn't end with $, add it for full match
-    if (!regexStr.endsWith('$')) {
-      regexStr = `${regexStr}$`;
+    if (isTemplatePattern(format)) {
+      // Templates always match the full tag name in auto mode
+      return { regex: compileTemplatePattern(format).regex, kind: 'template' };
     }
-    
-    try {
-      regex = new RegExp(regexStr);
-    } catch (error) {
-      // Invalid regex, return false
-      return false;
+    if (isGlobPattern(format)) {
+      // Globs always match the full tag name in auto mode
+      return { regex: convertGlobPatternToRegex(format), kind: 'glob' };
     }
-  } else {
-    // Treat as literal string (exact match)
-    return tagName === format;
+  } catch {
+    // Invalid glob or template, no match
+    return undefined;
+  }
+  if (isRegexPattern(format)) {
+    return compileRegexFormat(format);
+  }
+
+  // Treat as literal string (exact match)
+  return { regex: new RegExp(`^${format.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`), kind: 'literal' };
+}
+
+/**
+ * Get the kind of a format pattern
+ *
+ * @returns The pattern kind, or undefined if the pattern is invalid
+ */
+export function getFormatPatternKind(format: string): FormatPatternKind | undefined {
+  if (format.startsWith('!') && format.length > 1) {
+    return 'negation';
+  }
+  const kind = compileFormat(format)?.kind;
+  return kind === 'regex-anchored' ? 'regex' : kind;
+}
+
+/**
+ * Get the named capture groups of a regex pattern, or the placeholders of a template
+ * "^(?<upstream>\d+\.\d+)-ls(?<build>\d+)$" → ["upstream", "build"]
+ *
+ * @returns Group names in pattern order ([] for other or invalid patterns)
+ */
+export function getFormatGroupNames(format: string): string[] {
+  const regex = compileFormat(format)?.regex;
+  if (!regex) {
+    return [];
+  }
+  return [...regex.source.matchAll(/(?<!\\)\(\?<([A-Za-z_$][\w$]*)>/g)].map((groupMatch) => groupMatch[1]);
+}
+
+/**
+ * Check a format pattern for errors that would otherwise only surface while matching
+ *
+ * @throws Error for regex patterns with unsupported flags or catastrophic backtracking
+ */
+export function validateFormatPattern(format: string): void {
+  compileFormat(format.replace(/^!/, ''));
+}
+
+/**
+ * Match a tag name against a format pattern
+ * Match modes:
+ * - auto: full match, plus the prefix heuristic for simple, wildcard and regex patterns
+ *   ("X.X" matches "3.23-bae0df8a-ls3" through its numeric prefix "3.23")
+ * - strict: the pattern must match the whole tag name
+ * - prefix: the pattern must match the beginning of the tag name ("X.X" matches "3.23.1")
+ *
+ * @param tagName - The tag name to match
+ * @param format - The format pattern (simple like "X.X" or regex)
+ * @param mode - Match mode (default "auto")
+ * @returns Match details, or undefined if the tag does not match
+ */
+export function matchTagFormatDetails(
+  tagName: string,
+  format: string,
+  mode: TagFormatMatchMode = 'auto'
+): TagFormatMatch | undefined {
+  if (!format || !tagName) {
+    return undefined;
+  }
+
+  // "!pattern" matches every tag the pattern does not match
+  if (format.startsWith('!') && format.length > 1) {
+    return matchTagFormatDetails(tagName, format.slice(1), mode)
+      ? undefined
+      : { groups: {}, matchedBy: 'full', matchedText: tagName, kind: 'negation' };
+  }
+
+  const compiled = compileFormat(format);
+  if (!compiled) {
+    return undefined;
+  }
+  const { regex, kind } = compiled;
+  const patternKind = kind === 'regex-anchored' ? 'regex' : kind;
+
+  if (mode === 'prefix') {
+    // Drop the end anchor added for full matching
+    const source = kind === 'regex-anchored' ? regex.source : regex.source.replace(/\$$/, '');
+    const match = new RegExp(source, regex.flags).exec(tagName);
+    return match
+      ? {
+          groups: toGroups(match),
+          matchedBy: match[0] === tagName ? 'full' : 'prefix',
+          matchedText: match[0],
+          kind: patternKind,
+        }
+      : undefined;
   }
 
   // For wildcard patterns, try prefix match first (more reliable for tags with suffixes)
   // For other patterns, try full match first
-  if (isWildcard) {
-    // Try prefix match first for wildcard patterns
-    const prefix = extractWildcardPrefix(tagName);
-    if (prefix && regex.test(prefix)) {
-      return true;
-    }
-    // If prefix match fails, try full match
-    if (regex.test(tagName)) {
-      return true;
-    }
-  } else {
-    // Try full match first for non-wildcard patterns
-    if (regex.test(tagName)) {
-      return true;
+  const candidates =
+    mode === 'strict' || kind === 'template' || kind === 'glob' || kind === 'literal'
+      ? [tagName]
+      : kind === 'wildcard'
+      ? // Try prefix match first for wildcard patterns, then full match
+        [extractWildcardPrefix(tagName), tagName]
+      : // Try full match first for non-wildcard patterns, then prefix match
+        [tagName, extractNumericPrefix(tagName)];
+
+  for (const candidate of candidates) {
+    const match = candidate ? regex.exec(candidate) : null;
+    if (match) {
+      return {
+        groups: toGroups(match),
+        matchedBy: candidate === tagName ? 'full' : 'prefix',
+        matchedText: candidate,
+        kind: patternKind,
+      };
     }
-    // If full match fails, try prefix match
-    const prefix = extractNumericPrefix(tagName);
-    if (prefix && regex.test(prefix)) {
-      return true;
+  }
+
+  return undefined;
+}
+
+/**
+ * Match a tag name against a format pattern and return its named capture groups
+ * Supports both full match and prefix match
+ * Example: "3.23-bae0df8a-ls3" with "^(?<upstream>\d+\.\d+)-(?<sha>[0-9a-f]{8})-ls(?<build>\d+)$"
+ *          → { upstream: "3.23", sha: "bae0df8a", build: "3" }
+ *
+ * @param tagName - The tag name to match
+ * @param format - The format pattern (simple like "X.X" or regex)
+ * @param mode - Match mode (default "auto", see matchTagFormatDetails)
+ * @returns Named groups ({} for patterns without named groups), or undefined if the tag does not match
+ */
+export function matchTagFormatGroups(
+  tagName: string,
+  format: string,
+  mode: TagFormatMatchMode = 'auto'
+): Record<string, string> | undefined {
+  return matchTagFormatDetails(tagName, format, mode)?.groups;
+}
+
+/**
+ * Match a tag name against a format pattern
+ * Supports both full match and prefix match
+ * 
+ * @param tagName - The tag name to match
+ * @param format - The format pattern (simple like "X.X" or regex)
+ * @param mode - Match mode (default "auto", see matchTagFormatDetails)
+ * @returns true if tag matches the format
+ */
+export function matchTagFormat(tagName: string, format: string, mode: TagFormatMatchMode = 'auto'): boolean {
+  return matchTagFormatDetails(tagName, format, mode) !== undefined;
+}
+
+/**
+ * Get the named capture groups of the first format pattern matching a tag
+ * Patterns are tried in order, like the tag_format fallback list
+ *
+ * @returns Named groups of the first matching pattern, or undefined if none matches
+ */
+export function getTagFormatGroups(
+  tagName: string,
+  formats: string[],
+  mode: TagFormatMatchMode = 'auto'
+): Record<string, string> | undefined {
+  for (const format of splitNegatedPatterns(formats).patterns) {
+    const groups = matchTagFormatGroups(tagName, format, mode);
+    if (groups) {
+      return groups;
     }
   }
+  return undefined;
+}
+
+/**
+ * Get the first (non-negated) format pattern matching a tag
+ * In fallback mode this is the pattern that selected the tag's candidate list
+ *
+ * @returns The matching pattern, or undefined if none matches
+ */
+export function getMatchingTagFormat(
+  tagName: string,
+  formats: string[],
+  mode: TagFormatMatchMode = 'auto'
+): string | undefined {
+  return splitNegatedPatterns(formats).patterns.find((format) => matchTagFormat(tagName, format, mode));
+}
 
-  return false;
+/**
+ * Separate "!pattern" negations from the other patterns
+ * Negations filter the tags selected by the other patterns (or all tags if there are none)
+ */
+export function splitNegatedPatterns(formats: string[]): { patterns: string[]; negations: string[] } {
+  const isNegation = (format: string): boolean => format.startsWith('!') && format.length > 1;
+  return {
+    patterns: formats.filter((format) => !isNegation(format)),
+    negations: formats.filter(isNegation),
+  };
 }
 
 /**
@@ -187,13 +708,57 @@ export function matchTagFormat(tagName: string, format: string): boolean {
  * 
  * @param tagNames - Array of tag names to filter
  * @param format - The format pattern to match against
+ * @param mode - Match mode (default "auto", see matchTagFormatDetails)
+ * @param logger - If given, logs how each matching tag was matched (debug level)
  * @returns Array of tag names that match the format
  */
-export function filterTagsByFormat(tagNames: string[], format: string): string[] {
+export function filterTagsByFormat(
+  tagNames: string[],
+  format: string,
+  mode: TagFormatMatchMode = 'auto',
+  logger?: Logger
+): string[] {
   if (!format) {
     return tagNames;
   }
 
-  return tagNames.filter((tagName) => matchTagFormat(tagName, format));
+  return tagNames.filter((tagName) => {
+    const match = matchTagFormatDetails(tagName, format, mode);
+    if (match && logger) {
+      logger.debug(
+        match.matchedBy === 'full'
+          ? `Tag "${tagName}" matches "${format}" (${mode} mode: full match)`
+          : `Tag "${tagName}" matches "${format}" (${mode} mode: prefix match on "${match.matchedText}")`
+      );
+    }
+    return match !== undefined;
+  });
 }
 
+/**
+ * Filter tags by several format patterns at once
+ * "!pattern" negations are applied to the result in both modes
+ *
+ * @param tagNames - Array of tag names to filter
+ * @param formats - The format patterns to match against
+ * @param mode - "union" keeps tags matching any pattern, "all" keeps tags matching every pattern
+ * @param matchMode - Match mode for each pattern (default "auto", see matchTagFormatDetails)
+ * @returns Array of tag names kept by the mode, in input order
+ */
+export function filterTagsByFormats(
+  tagNames: string[],
+  formats: string[],
+  mode: Exclude<TagFormatMode, 'fallback'>,
+  matchMode: TagFormatMatchMode = 'auto'
+): string[] {
+  const { patterns, negations } = splitNegatedPatterns(formats);
+  const matches = (tagName: string, format: string): boolean => matchTagFormat(tagName, format, matchMode);
+  return tagNames.filter(
+    (tagName) =>
+      (patterns.length === 0 ||
+        (mode === 'all'
+          ? patterns.every((format) => matches(tagName, format))
+          : patterns.some((format) => matches(tagName, format)))) &&
+      negations.every((format) => matches(tagName, format))
+  );
+}
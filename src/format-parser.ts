@@ -1,20 +1,48 @@
 /**
- * Format parser utilities for tag_format input
+ * Format parser utilities for tag_format input (also used for tag_exclude and tag_name lists)
  * Supports single strings, JSON arrays, and comma-separated values
  */
 
+/**
+ * Split on commas that are not nested in braces, brackets or parentheses
+ * so glob alternation ({rc,beta}) and regex quantifiers (\d{1,3}) stay intact
+ */
+function splitTopLevelCommas(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '{' || char === '[' || char === '(') {
+      depth++;
+    } else if ((char === '}' || char === ']' || char === ')') && depth > 0) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
 /**
  * Parse tag_format input into an array of format patterns
  * Supports:
  * - Single string: "X.X" → ["X.X"]
  * - JSON array string: '["*.*.*", "*.*"]' → ["*.*.*", "*.*"]
  * - Comma-separated: "*.*.*,*.*" → ["*.*.*", "*.*"]
+ *   (commas inside {...}, [...] or (...) belong to the pattern: "v*-{rc,beta}*,X.X" → ["v*-{rc,beta}*", "X.X"])
  * - Empty/undefined → undefined (backward compatible)
  * 
  * @param input - The tag_format input string
+ * @param inputName - Input name used in error messages (default "tag_format")
  * @returns Array of format patterns, or undefined if input is empty
  */
-export function parseTagFormat(input: string | undefined): string[] | undefined {
+export function parseTagFormat(input: string | undefined, inputName: string = 'tag_format'): string[] | undefined {
   if (!input || input.trim() === '') {
     return undefined;
   }
@@ -40,7 +68,7 @@ export function parseTagFormat(input: string | undefined): string[] | undefined
       throw new Error('JSON input must be an array');
     } catch (error) {
       if (error instanceof SyntaxError) {
-        throw new Error(`Invalid JSON array format for tag_format: ${error.message}. Expected format: '["pattern1", "pattern2"]'`);
+        throw new Error(`Invalid JSON array format for ${inputName}: ${error.message}. Expected format: '["pattern1", "pattern2"]'`);
       }
       throw error;
     }
@@ -48,13 +76,12 @@ export function parseTagFormat(input: string | undefined): string[] | undefined
 
   // Check if it contains commas (likely comma-separated)
   if (trimmed.includes(',')) {
-    const patterns = trimmed
-      .split(',')
+    const patterns = splitTopLevelCommas(trimmed)
       .map((item) => item.trim())
       .filter((item) => item.length > 0);
     
     if (patterns.length === 0) {
-      throw new Error('Comma-separated tag_format must contain at least one non-empty pattern');
+      throw new Error(`Comma-separated ${inputName} must contain at least one non-empty pattern`);
     }
     
     return patterns;
@@ -0,0 +1,170 @@
+/**
+ * Dry-run report of how tag_format patterns match a tag list (explain_format input)
+ */
+
+import * as core from '@actions/core';
+import {
+  FormatPatternKind,
+  TagFormatMatchMode,
+  TagFormatMode,
+  filterTagsByFormats,
+  getFormatPatternKind,
+  matchTagFormatDetails,
+  splitNegatedPatterns,
+} from './format-matcher';
+import { SummaryTableRow, code } from './summary-html';
+
+/** Number of matched and unmatched tags listed per pattern */
+const DEFAULT_SAMPLE_SIZE = 10;
+
+/**
+ * Matched tag and the branch that decided it: the pattern kind for full
+ * matches (simple, wildcard, template, glob, regex, literal, negation) or "prefix"
+ */
+export interface FormatMatchSample {
+  tag: string;
+  branch: FormatPatternKind | 'prefix';
+}
+
+/**
+ * Report for a single pattern
+ */
+export interface FormatPatternReport {
+  pattern: string;
+  kind: FormatPatternKind | 'invalid';
+  matchCount: number;
+  /** Number of matched tags per deciding branch */
+  branches: Record<string, number>;
+  /** Sample of matched tags */
+  matched: FormatMatchSample[];
+  /** Sample of tags the pattern does not match */
+  unmatched: string[];
+}
+
+/**
+ * Report for all patterns combined with tag_format_mode
+ */
+export interface FormatReport {
+  totalTags: number;
+  mode: TagFormatMode;
+  matchMode: TagFormatMatchMode;
+  /** Pattern used in fallback mode (the first pattern matching any tag) */
+  selectedPattern?: string;
+  /** Number of tags kept by the combined patterns */
+  matchCount: number;
+  patterns: FormatPatternReport[];
+}
+
+/**
+ * Evaluate every pattern against the full tag list
+ *
+ * @param tagNames - All tag (or release) names, after any component prefix is removed
+ * @param patterns - Patterns from tag_format
+ * @param mode - How the patterns are combined (default "fallback")
+ * @param matchMode - How each pattern is matched (default "auto")
+ * @param sampleSize - Number of matched and unmatched tags listed per pattern
+ */
+export function buildFormatReport(
+  tagNames: string[],
+  patterns: string[],
+  mode: TagFormatMode = 'fallback',
+  matchMode: TagFormatMatchMode = 'auto',
+  sampleSize: number = DEFAULT_SAMPLE_SIZE
+): FormatReport {
+  const patternReports = patterns.map((pattern): FormatPatternReport => {
+    const report: FormatPatternReport = {
+      pattern,
+      kind: getFormatPatternKind(pattern) ?? 'invalid',
+      matchCount: 0,
+      branches: {},
+      matched: [],
+      unmatched: [],
+    };
+
+    for (const tag of tagNames) {
+      const match = matchTagFormatDetails(tag, pattern, matchMode);
+      if (!match) {
+        if (report.unmatched.length < sampleSize) {
+          report.unmatched.push(tag);
+        }
+        continue;
+      }
+
+      const branch = match.matchedBy === 'prefix' ? 'prefix' : match.kind;
+      report.matchCount++;
+      report.branches[branch] = (report.branches[branch] ?? 0) + 1;
+      if (report.matched.length < sampleSize) {
+        report.matched.push({ tag, branch });
+      }
+    }
+
+    return report;
+  });
+
+  if (mode === 'fallback') {
+    // Negations filter the tags of the selected pattern instead of being candidates themselves
+    const { patterns: positive, negations } = splitNegatedPatterns(patterns);
+    const selected = patternReports.find((report) => positive.includes(report.pattern) && report.matchCount > 0);
+    const kept =
+      selected || positive.length === 0
+        ? filterTagsByFormats(tagNames, selected ? [selected.pattern, ...negations] : negations, 'all', matchMode)
+        : [];
+    return {
+      totalTags: tagNames.length,
+      mode,
+      matchMode,
+      ...(selected ? { selectedPattern: selected.pattern } : {}),
+      matchCount: kept.length,
+      patterns: patternReports,
+    };
+  }
+
+  return {
+    totalTags: tagNames.length,
+    mode,
+    matchMode,
+    matchCount: filterTagsByFormats(tagNames, patterns, mode, matchMode).length,
+    patterns: patternReports,
+  };
+}
+
+/**
+ * Table rows (header first) for the job summary
+ */
+export function getFormatReportTable(report: FormatReport): SummaryTableRow[] {
+  const header: SummaryTableRow = [
+    { data: 'Pattern', header: true },
+    { data: 'Kind', header: true },
+    { data: 'Matches', header: true },
+    { data: 'Branches', header: true },
+    { data: 'Matched (sample)', header: true },
+    { data: 'Not matched (sample)', header: true },
+  ];
+
+  const rows = report.patterns.map((pattern): SummaryTableRow => [
+    pattern.pattern === report.selectedPattern ? `${code(pattern.pattern)} (selected)` : code(pattern.pattern),
+    pattern.kind,
+    `${pattern.matchCount} / ${report.totalTags}`,
+    Object.entries(pattern.branches)
+      .map(([branch, count]) => `${branch}: ${count}`)
+      .join(', '),
+    pattern.matched.map((sample) => `${code(sample.tag)} (${sample.branch})`).join(' '),
+    pattern.unmatched.map((tag) => code(tag)).join(' '),
+  ]);
+
+  return [header, ...rows];
+}
+
+/**
+ * Write the report as a table to the job summary
+ */
+export async function writeFormatReportSummary(report: FormatReport): Promise<void> {
+  await core.summary
+    .addHeading('Tag format report', 3)
+    .addRaw(
+      `${report.matchCount} of ${report.totalTags} tags kept (tag_format_mode: ${report.mode}, tag_format_match: ${report.matchMode})`,
+      true
+    )
+    .addTable(getFormatReportTable(report))
+    .write();
+}
@@ -1,5 +1,5 @@
 import { execSync } from 'child_process';
-import { ItemInfo, ItemType } from './types';
+import { ItemInfo, ItemType, CommitSummary } from './types';
 
 /**
  * Execute git command and return output
@@ -93,6 +93,22 @@ export function getAllTags(repoPath: string): string[] {
   }
 }
 
+/**
+ * Get commits reachable from HEAD but not from the tag (newest first)
+ */
+export function getCommitsSince(tagName: string, repoPath: string): CommitSummary[] {
+  // Unit separator between SHA and message, record separator between commits
+  const log = execGit(`log --format=%H%x1f%B%x1e refs/tags/${tagName}..HEAD`, repoPath);
+  return log
+    .split('\x1e')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [sha, message = ''] = entry.split('\x1f');
+      return { sha: sha.trim(), message: message.trim() };
+    });
+}
+
 /**
  * Get tag information from local repository
  */
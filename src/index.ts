@@ -3,7 +3,24 @@ import { ItemInfo, Platform } from './types';
 import { getInputs, resolveToken } from './config';
 import { getRepositoryInfo } from './repo-utils';
 import { createPlatformAPI } from './platforms/platform-factory';
-import { resolveLatestTag } from './tag-resolver';
+import {
+  resolveLatestTag,
+  resolvePreviousTag,
+  resolveSelectedTag,
+  getPrereleaseStrategy,
+  ResolveOptions,
+  ResolvedCandidates,
+} from './tag-resolver';
+import { parseTagSelector, isPlainLatest } from './tag-selector';
+import { resolveItems, getPreviousItem } from './item-resolution';
+import { getBareVersion, stripTagPrefix } from './tag-prefix';
+import { getAmbiguousGlobWarning, getMatchingTagFormat, getTagFormatGroups } from './format-matcher';
+import { buildFormatReport, writeFormatReportSummary } from './format-report';
+import { getRepositoryWebUrl, writeJobSummary } from './job-summary';
+import { ItemPolicy, assertPolicySupported, getPolicyViolations } from './policy';
+import { createOutputSetter } from './outputs';
+import { getNextVersions } from './next-version';
+import { analyzeCommits } from './conventional-commits';
 import { Logger } from './logger';
 
 /**
@@ -14,6 +31,7 @@ async function run(): Promise<void> {
     // Get and validate inputs
     const inputs = getInputs();
     const logger = new Logger(inputs.verbose);
+    const setOutput = createOutputSetter(inputs.exportEnv, inputs.envPrefix);
     const shortSha = (value?: string): string => (value ? value.substring(0, 7) : '');
 
     // Warn if certificate errors are being ignored (security risk)
@@ -23,6 +41,14 @@ async function run(): Promise<void> {
       );
     }
 
+    // Warn about patterns matched as globs that older versions matched as regexes
+    for (const pattern of [...(inputs.tagFormat ?? []), ...(inputs.tagExclude ?? [])]) {
+      const warning = getAmbiguousGlobWarning(pattern);
+      if (warning) {
+        logger.warning(warning);
+      }
+    }
+
     // Mask token in logs
     if (inputs.token) {
       core.setSecret(inputs.token);
@@ -42,7 +68,7 @@ async function run(): Promise<void> {
     const resolvedToken = resolveToken(inputs.token, repoInfo.platform);
 
     // Create platform API instance
-    const { platform, api: platformAPI } = await createPlatformAPI(
+    const { platform, api: platformAPI, baseUrl: apiBaseUrl } = await createPlatformAPI(
       repoInfo,
       inputs.platform ? (inputs.platform.toLowerCase() as Platform) : 'auto',
       {
@@ -56,34 +82,206 @@ async function run(): Promise<void> {
 
     logger.info(`Repository: ${repoInfo.owner || 'local'}/${repoInfo.repo || repoInfo.path || 'unknown'}, Platform: ${platform}, Item type: ${inputs.tagType}`);
 
-    // Resolve "latest" tag/release if needed
-    let resolvedTagName = inputs.tagName;
-    if (inputs.tagName.toLowerCase() === 'latest') {
-      const itemTypeLabel = inputs.tagType === 'release' ? 'release' : 'tag';
-      logger.info(`Resolving latest ${itemTypeLabel}...`);
-      resolvedTagName = await resolveLatestTag(platformAPI, inputs.tagFormat, inputs.tagType);
-      logger.info(`Resolved latest ${itemTypeLabel}: ${resolvedTagName}`);
-    }
+    // Policy gates the platform cannot evaluate fail before any lookup
+    const policy: ItemPolicy = {
+      failIfMissing: inputs.failIfMissing,
+      requireAnnotated: inputs.requireAnnotated,
+      requireVerified: inputs.requireVerified,
+      forbidDraft: inputs.forbidDraft,
+      forbidPrerelease: inputs.forbidPrerelease,
+    };
+    assertPolicySupported(policy, platform);
 
-    // Get item information (tag or release)
     const itemTypeLabel = inputs.tagType === 'release' ? 'release' : 'tag';
-    logger.info(`Fetching ${itemTypeLabel} information for: ${resolvedTagName}`);
-    const itemInfo = inputs.tagType === 'release'
-      ? await platformAPI.getReleaseInfo(resolvedTagName)
-      : await platformAPI.getTagInfo(resolvedTagName);
+    // Candidate list of the first resolution (tag_name selector or previous_of), for tags_json
+    let candidates: ResolvedCandidates | undefined;
+    const resolveOptions: ResolveOptions = {
+      versionConstraint: inputs.versionConstraint,
+      prereleasePolicy: inputs.prereleasePolicy,
+      calverFormat: inputs.calverFormat,
+      versionScheme: inputs.versionScheme,
+      sortBy: inputs.sortBy,
+      tagPrefixes: inputs.tagPrefixes,
+      tagFormatMode: inputs.tagFormatMode,
+      tagFormatMatch: inputs.tagFormatMatch,
+      tagExclude: inputs.tagExclude,
+      logger,
+      onCandidates: (resolved) => {
+        candidates ??= resolved;
+      },
+    };
+
+    // Dry-run report of how each tag_format pattern matches the full list, written
+    // before resolution so it is available even when no pattern matches
+    if (inputs.explainFormat) {
+      if (inputs.tagFormat && inputs.tagFormat.length > 0) {
+        const allNames =
+          inputs.tagType === 'release' ? await platformAPI.getAllReleaseNames() : await platformAPI.getAllTagNames();
+        const tagPrefixes = inputs.tagPrefixes;
+        const formatNames = tagPrefixes
+          ? allNames.map((name) => stripTagPrefix(name, tagPrefixes)).filter((name): name is string => !!name)
+          : allNames;
+        const report = buildFormatReport(formatNames, inputs.tagFormat, inputs.tagFormatMode, inputs.tagFormatMatch);
+        setOutput('format_report', JSON.stringify(report));
+        logger.info(`Format report: ${report.matchCount} of ${report.totalTags} ${itemTypeLabel}s kept by tag_format`);
+        if (process.env.GITHUB_STEP_SUMMARY) {
+          try {
+            await writeFormatReportSummary(report);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warning(`Could not write format report to the job summary: ${message}`);
+          }
+        } else {
+          logger.debug('GITHUB_STEP_SUMMARY is not set, skipping the format report summary');
+        }
+      } else {
+        logger.warning('explain_format has no effect without tag_format');
+      }
+    }
+
+    const getItemInfo = (name: string): Promise<ItemInfo> =>
+      inputs.tagType === 'release' ? platformAPI.getReleaseInfo(name) : platformAPI.getTagInfo(name);
+
+    // Resolve "latest", selectors (latest~N, latest@1.4, oldest) or "previous" if needed
+    const resolveTagName = async (tagName: string): Promise<string> => {
+      const selector = parseTagSelector(tagName);
+      if (selector && isPlainLatest(selector)) {
+        logger.info(`Resolving latest ${itemTypeLabel}...`);
+        const latestName = await resolveLatestTag(platformAPI, inputs.tagFormat, inputs.tagType, resolveOptions);
+        logger.info(`Resolved latest ${itemTypeLabel}: ${latestName}`);
+        return latestName;
+      }
+      if (selector) {
+        const selectedName = await resolveSelectedTag(
+          platformAPI,
+          selector,
+          tagName,
+          inputs.tagFormat,
+          inputs.tagType,
+          resolveOptions
+        );
+        logger.info(`Resolved ${tagName} ${itemTypeLabel}: ${selectedName}`);
+        return selectedName;
+      }
+      if (tagName.toLowerCase() === 'previous') {
+        logger.info(`Resolving ${itemTypeLabel} preceding the latest ${itemTypeLabel}...`);
+        const previousName = await resolvePreviousTag(
+          platformAPI,
+          'latest',
+          inputs.tagFormat,
+          inputs.tagType,
+          resolveOptions
+        );
+        if (!previousName) {
+          throw new Error(`No ${itemTypeLabel} precedes the latest ${itemTypeLabel}`);
+        }
+        logger.info(`Resolved previous ${itemTypeLabel}: ${previousName}`);
+        return previousName;
+      }
+      return tagName;
+    };
+
+    const toItemJson = (info: ItemInfo) => ({
+      ...info,
+      version: getBareVersion(info.name, inputs.tagPrefixes),
+      item_sha_short: shortSha(info.item_sha),
+      commit_sha_short: shortSha(info.commit_sha),
+    });
+
+    // Resolve and fetch every requested item (tag or release) through the same platform API,
+    // keyed by requested name; the single-item outputs below describe the first entry
+    const items = await resolveItems(inputs.tagNames, resolveTagName, (resolvedName) => {
+      logger.info(`Fetching ${itemTypeLabel} information for: ${resolvedName}`);
+      return getItemInfo(resolvedName);
+    });
+    const itemsJson = Object.fromEntries([...items].map(([tagName, item]) => [tagName, toItemJson(item.info)]));
+    setOutput('items_json', JSON.stringify(itemsJson));
 
     // Set outputs with normalized field names
-    core.setOutput('exists', itemInfo.exists.toString());
-    core.setOutput('name', itemInfo.name);
-    core.setOutput('item_sha', itemInfo.item_sha);
-    core.setOutput('item_sha_short', shortSha(itemInfo.item_sha));
-    core.setOutput('item_type', itemInfo.item_type);
-    core.setOutput('commit_sha', itemInfo.commit_sha);
-    core.setOutput('commit_sha_short', shortSha(itemInfo.commit_sha));
-    core.setOutput('details', itemInfo.details);
-    core.setOutput('verified', itemInfo.verified.toString());
-    core.setOutput('is_draft', itemInfo.is_draft.toString());
-    core.setOutput('is_prerelease', itemInfo.is_prerelease.toString());
+    const [{ resolvedName: resolvedTagName, info: itemInfo }] = items.values();
+    const itemJson = toItemJson(itemInfo);
+    setOutput('exists', itemInfo.exists.toString());
+    setOutput('name', itemInfo.name);
+    setOutput('version', itemJson.version);
+    setOutput('item_sha', itemInfo.item_sha);
+    setOutput('item_sha_short', itemJson.item_sha_short);
+    setOutput('item_type', itemInfo.item_type);
+    setOutput('commit_sha', itemInfo.commit_sha);
+    setOutput('commit_sha_short', itemJson.commit_sha_short);
+    setOutput('details', itemInfo.details);
+    setOutput('verified', itemInfo.verified.toString());
+    setOutput('is_draft', itemInfo.is_draft.toString());
+    setOutput('is_prerelease', itemInfo.is_prerelease.toString());
+    setOutput('item_json', JSON.stringify(itemJson));
+
+    // Named capture groups of the tag_format pattern matching the item (after any component prefix)
+    if (inputs.tagFormat && inputs.tagFormat.length > 0) {
+      const formatName =
+        (inputs.tagPrefixes && stripTagPrefix(resolvedTagName, inputs.tagPrefixes)) || resolvedTagName;
+      const groups = getTagFormatGroups(formatName, inputs.tagFormat, inputs.tagFormatMatch) ?? {};
+      for (const [group, value] of Object.entries(groups)) {
+        setOutput(`match_${group}`, value);
+      }
+      setOutput('match_json', JSON.stringify(groups));
+      logger.debug(`Format groups: ${JSON.stringify(groups)}`);
+    }
+
+    // Next versions, keeping the tag's "v" or component prefix
+    const nextVersions = getNextVersions(resolvedTagName, inputs.tagPrefixes);
+    setOutput('next_major', nextVersions?.major ?? '');
+    setOutput('next_minor', nextVersions?.minor ?? '');
+    setOutput('next_patch', nextVersions?.patch ?? '');
+    setOutput('next_prerelease', nextVersions?.prerelease ?? '');
+    if (inputs.bump === 'auto') {
+      // Infer the bump level from Conventional Commits since the resolved tag
+      if (!itemInfo.exists) {
+        logger.warning(`Cannot infer bump type: "${resolvedTagName}" does not exist`);
+      } else {
+        logger.info(`Analyzing commits since ${itemInfo.name}...`);
+        const commits = await platformAPI.getCommitsSince(itemInfo.name);
+        const analysis = analyzeCommits(commits);
+        logger.info(`Inferred bump type from ${commits.length} commit(s): ${analysis.bump}`);
+        setOutput('bump_type', analysis.bump);
+        setOutput('commits_json', JSON.stringify(analysis.groups));
+        setOutput('next_version', analysis.bump === 'none' ? '' : (nextVersions?.[analysis.bump] ?? ''));
+      }
+    } else if (inputs.bump) {
+      setOutput('next_version', nextVersions?.[inputs.bump] ?? '');
+    }
+    if (nextVersions) {
+      logger.debug(`Next versions: ${JSON.stringify(nextVersions)}`);
+    } else if (inputs.bump) {
+      logger.warning(`Cannot compute next_version: "${resolvedTagName}" is not a semantic version`);
+    }
+
+    // Resolve the preceding item when requested via previous_of or a tag_name entry "previous"
+    const previousItem = getPreviousItem(items);
+    if (inputs.previousOf || previousItem) {
+      let previousInfo: ItemInfo | undefined;
+      if (inputs.previousOf) {
+        const previousName = await resolvePreviousTag(
+          platformAPI,
+          inputs.previousOf,
+          inputs.tagFormat,
+          inputs.tagType,
+          resolveOptions
+        );
+        previousInfo = previousName ? await getItemInfo(previousName) : undefined;
+      } else {
+        previousInfo = previousItem?.info;
+      }
+
+      setOutput('previous_exists', (previousInfo?.exists ?? false).toString());
+      setOutput('previous_name', previousInfo?.name ?? '');
+      setOutput('previous_item_sha', previousInfo?.item_sha ?? '');
+      setOutput('previous_commit_sha', previousInfo?.commit_sha ?? '');
+      setOutput('previous_commit_sha_short', shortSha(previousInfo?.commit_sha));
+      logger.debug(`Previous ${itemTypeLabel}: ${previousInfo?.name ?? '(none)'}`);
+    }
+
+    // Ordered candidate list, empty when no tag_name entry needs resolution and previous_of is not set
+    setOutput('tags_json', JSON.stringify(candidates?.candidates ?? []));
+    logger.debug(`Candidate ${itemTypeLabel}s: ${candidates?.candidates.length ?? 0}`);
 
     if (!itemInfo.exists) {
       logger.warning(
@@ -108,6 +306,47 @@ async function run(): Promise<void> {
         logger.debug(`Verified: ${itemInfo.verified}`);
       }
     }
+
+    // Job summary of the resolved items and, when a list was resolved, its newest candidates
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      const isLocal = !!repoInfo.path && (!repoInfo.owner || !repoInfo.repo);
+      const repositoryUrl = isLocal
+        ? undefined
+        : getRepositoryWebUrl(platform, apiBaseUrl, repoInfo.owner, repoInfo.repo);
+      const newest = candidates?.candidates[0];
+      const newestFormatName =
+        newest && ((inputs.tagPrefixes && stripTagPrefix(newest.name, inputs.tagPrefixes)) || newest.name);
+      try {
+        await writeJobSummary({
+          repository: isLocal ? repoInfo.path ?? '' : `${repoInfo.owner}/${repoInfo.repo}`,
+          platform: isLocal ? 'local' : platform,
+          repositoryUrl,
+          itemType: inputs.tagType,
+          items: [...items].map(([requested, item]) => ({ requested, ...item })),
+          candidates: candidates?.candidates,
+          ordering: candidates?.ordering,
+          formatPattern:
+            newestFormatName && inputs.tagFormat
+              ? getMatchingTagFormat(newestFormatName, inputs.tagFormat, inputs.tagFormatMatch)
+              : undefined,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warning(`Could not write the job summary: ${message}`);
+      }
+    } else {
+      logger.debug('GITHUB_STEP_SUMMARY is not set, skipping the job summary');
+    }
+
+    // Policy gates, checked after all outputs are set so later steps can still read them
+    const violations = [...items.values()].flatMap((item) => {
+      const version = getBareVersion(item.info.name, inputs.tagPrefixes);
+      const strategy = getPrereleaseStrategy(version, inputs.tagFormat, resolveOptions);
+      return getPolicyViolations(item.info, policy, itemTypeLabel, version, strategy);
+    });
+    if (violations.length > 0) {
+      core.setFailed(`Policy check failed: ${violations.join('; ')}`);
+    }
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(error.message);
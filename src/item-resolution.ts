@@ -0,0 +1,58 @@
+/**
+ * Resolution of the tag_name list: each requested name (tag name, selector or "previous")
+ * is resolved to an item name and fetched once
+ */
+
+import { ItemInfo } from './types';
+
+/**
+ * Requested item after resolution
+ */
+export interface ResolvedItem {
+  /** Item name the requested name resolved to (e.g. "v1.4.2" for "latest") */
+  resolvedName: string;
+  info: ItemInfo;
+}
+
+/**
+ * Resolve and fetch every requested item, keyed by requested name in input order
+ * Repeated names are resolved and fetched once
+ *
+ * @param tagNames - Parsed tag_name entries
+ * @param resolveName - Resolves a requested name (selector, "previous" or plain name) to an item name
+ * @param fetchItem - Fetches the information of an item name
+ * @throws Error if tagNames is empty
+ */
+export async function resolveItems(
+  tagNames: string[],
+  resolveName: (tagName: string) => Promise<string>,
+  fetchItem: (name: string) => Promise<ItemInfo>
+): Promise<Map<string, ResolvedItem>> {
+  if (tagNames.length === 0) {
+    throw new Error('tag_name has no entries');
+  }
+
+  const items = new Map<string, ResolvedItem>();
+  for (const tagName of tagNames) {
+    if (items.has(tagName)) {
+      continue;
+    }
+    const resolvedName = await resolveName(tagName);
+    items.set(tagName, { resolvedName, info: await fetchItem(resolvedName) });
+  }
+  return items;
+}
+
+/**
+ * Get the item requested as "previous" (case-insensitive), wherever it appears in the tag_name list
+ *
+ * @returns The resolved item, or undefined if "previous" was not requested
+ */
+export function getPreviousItem(items: Map<string, ResolvedItem>): ResolvedItem | undefined {
+  for (const [tagName, item] of items) {
+    if (tagName.trim().toLowerCase() === 'previous') {
+      return item;
+    }
+  }
+  return undefined;
+}
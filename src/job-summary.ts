@@ -0,0 +1,206 @@
+/**
+ * Job summary report of the resolved items (tags or releases)
+ */
+
+import * as core from '@actions/core';
+import { ItemInfo, Platform } from './types';
+import { Candidate } from './tag-resolver';
+import { SummaryTableRow, code, escapeHtml, link } from './summary-html';
+
+/** Number of candidates listed when a list was resolved */
+const DEFAULT_CANDIDATE_COUNT = 5;
+
+/**
+ * Requested tag_name entry and the item it resolved to
+ */
+export interface SummaryItem {
+  requested: string;
+  resolvedName: string;
+  info: ItemInfo;
+}
+
+/**
+ * Everything shown in the job summary
+ */
+export interface JobSummary {
+  /** owner/repo, or the path of a local repository */
+  repository: string;
+  /** Platform name, or "local" for a local repository */
+  platform: Platform | 'local';
+  /** Web URL of the repository, used for links (none for local repositories) */
+  repositoryUrl?: string;
+  itemType: 'tags' | 'release';
+  items: SummaryItem[];
+  /** Ordered candidate list, when tag_name or previous_of needed resolution */
+  candidates?: Candidate[];
+  /** Sort strategy used for the candidate list */
+  ordering?: string;
+  /** tag_format pattern matching the newest candidate (the pattern chosen in fallback mode) */
+  formatPattern?: string;
+}
+
+/**
+ * Web URL of a repository from the platform API base URL
+ * e.g. "https://api.github.com" → "https://github.com/owner/repo",
+ * "https://gitea.example.com/api/v1" → "https://gitea.example.com/owner/repo"
+ */
+export function getRepositoryWebUrl(
+  platform: Platform,
+  apiBaseUrl: string | undefined,
+  owner: string,
+  repo: string
+): string | undefined {
+  if (!apiBaseUrl || !owner || !repo) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(apiBaseUrl);
+  } catch {
+    return undefined;
+  }
+
+  // Public API hosts serve the web UI without the "api." subdomain
+  const host = url.host.replace(/^api\.(?=(github\.com|bitbucket\.org)$)/, '');
+  const apiPath = platform === Platform.BITBUCKET ? /\/(rest\/api\/)?[\d.]+\/?$/ : /\/api(\/v\d+)?\/?$/;
+  const basePath = url.pathname.replace(apiPath, '').replace(/\/$/, '');
+
+  return `${url.protocol}//${host}${basePath}/${owner}/${repo}`;
+}
+
+function encodeRefPath(name: string): string {
+  return name.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Web URL of a commit
+ */
+export function getCommitUrl(
+  platform: Platform | 'local',
+  repositoryUrl: string | undefined,
+  sha: string
+): string | undefined {
+  if (!repositoryUrl || !sha || platform === 'local') {
+    return undefined;
+  }
+  return `${repositoryUrl}/${platform === Platform.BITBUCKET ? 'commits' : 'commit'}/${sha}`;
+}
+
+/**
+ * Web URL of a tag or release page
+ */
+export function getItemUrl(
+  platform: Platform | 'local',
+  repositoryUrl: string | undefined,
+  itemType: 'tags' | 'release',
+  name: string
+): string | undefined {
+  if (!repositoryUrl || !name || platform === 'local') {
+    return undefined;
+  }
+  const ref = encodeRefPath(name);
+  switch (platform) {
+    case Platform.GITHUB:
+      return itemType === 'release' ? `${repositoryUrl}/releases/tag/${ref}` : `${repositoryUrl}/tree/${ref}`;
+    case Platform.GITEA:
+      return itemType === 'release' ? `${repositoryUrl}/releases/tag/${ref}` : `${repositoryUrl}/src/tag/${ref}`;
+    case Platform.BITBUCKET:
+      return `${repositoryUrl}/src/${ref}`;
+  }
+}
+
+function flag(value: boolean): string {
+  return value ? 'yes' : 'no';
+}
+
+/**
+ * Table rows (header first) with one row per requested item
+ */
+export function getItemsTable(summary: JobSummary): SummaryTableRow[] {
+  const { platform, repositoryUrl, itemType } = summary;
+  const header: SummaryTableRow = [
+    { data: 'Requested', header: true },
+    { data: 'Resolved', header: true },
+    { data: 'Type', header: true },
+    { data: 'Commit', header: true },
+    { data: 'Item SHA', header: true },
+    { data: 'Verified', header: true },
+    { data: 'Draft', header: true },
+    { data: 'Prerelease', header: true },
+  ];
+
+  const rows = summary.items.map(({ requested, resolvedName, info }): SummaryTableRow => {
+    if (!info.exists) {
+      return [code(requested), `${code(resolvedName)} (not found)`, '', '', '', '', '', ''];
+    }
+    return [
+      code(requested),
+      link(code(info.name), getItemUrl(platform, repositoryUrl, itemType, info.name)),
+      info.item_type,
+      link(code(info.commit_sha.substring(0, 7)), getCommitUrl(platform, repositoryUrl, info.commit_sha)),
+      code(info.item_sha.substring(0, 7)),
+      flag(info.verified),
+      flag(info.is_draft),
+      flag(info.is_prerelease),
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+/**
+ * Table rows (header first) with the newest candidates
+ */
+export function getCandidatesTable(
+  candidates: Candidate[],
+  count: number = DEFAULT_CANDIDATE_COUNT
+): SummaryTableRow[] {
+  const header: SummaryTableRow = [
+    { data: '#', header: true },
+    { data: 'Name', header: true },
+    { data: 'Version', header: true },
+    { data: 'Date', header: true },
+  ];
+
+  const rows = candidates
+    .slice(0, count)
+    .map((candidate, index): SummaryTableRow => [
+      String(index + 1),
+      code(candidate.name),
+      code(candidate.version),
+      candidate.date,
+    ]);
+
+  return [header, ...rows];
+}
+
+/**
+ * Write the summary to the job summary
+ */
+export async function writeJobSummary(summary: JobSummary): Promise<void> {
+  const itemLabel = summary.itemType === 'release' ? 'Release' : 'Tag';
+  const repository = link(code(summary.repository), summary.repositoryUrl);
+  let report = core.summary
+    .addHeading(`${itemLabel} info`, 3)
+    .addRaw(`Repository: ${repository} (${summary.platform})`, true)
+    .addTable(getItemsTable(summary));
+
+  for (const { requested, info } of summary.items) {
+    if (info.exists && info.details) {
+      const label = `Details of ${escapeHtml(info.name)} (${escapeHtml(requested)})`;
+      report = report.addDetails(label, `<pre>${escapeHtml(info.details)}</pre>`);
+    }
+  }
+
+  if (summary.candidates) {
+    const orderingLabel = summary.ordering ? ` ordered by ${summary.ordering}` : '';
+    const patternLabel = summary.formatPattern ? `, matching tag_format ${code(summary.formatPattern)}` : '';
+    report = report
+      .addHeading('Candidates', 4)
+      .addRaw(`${summary.candidates.length} candidate ${itemLabel.toLowerCase()}s${orderingLabel}${patternLabel}`, true)
+      .addTable(getCandidatesTable(summary.candidates));
+  }
+
+  await report.write();
+}
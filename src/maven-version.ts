@@ -0,0 +1,137 @@
+/**
+ * Maven version utilities, following the ordering of Maven's ComparableVersion
+ * (flattened: "-" and "." separate items alike, so "1.0-1" equals "1.0.1")
+ * Examples: "1.0", "1.0-SNAPSHOT", "1.0-beta-2", "1.0.0.RELEASE", "2.0-rc1"
+ * See https://maven.apache.org/pom.html#version-order-specification
+ */
+
+/**
+ * Version item: a number or a qualifier (lowercase, aliases resolved)
+ */
+export type MavenVersionItem = number | string;
+
+/**
+ * Known qualifiers in ascending order; "" is the release itself
+ * Unknown qualifiers sort after all of them, alphabetically
+ */
+const QUALIFIER_ORDER = ['alpha', 'beta', 'milestone', 'rc', 'snapshot', '', 'sp'];
+
+const SHORTHANDS = new Map([
+  ['a', 'alpha'],
+  ['b', 'beta'],
+  ['m', 'milestone'],
+]);
+
+const QUALIFIER_ALIASES = new Map([
+  ['ga', ''],
+  ['final', ''],
+  ['release', ''],
+  ['cr', 'rc'],
+]);
+
+/**
+ * Parse a Maven version from tag name into its items
+ * Items are split at ".", "-" and transitions between digits and letters;
+ * "a", "b" and "m" directly followed by a digit mean alpha, beta and milestone
+ * Example: "1.0-beta-2" → [1, 0, "beta", 2], "2.0RC1" → [2, 0, "rc", 1]
+ *
+ * @returns Items, or null if the tag does not start with a number
+ */
+export function parseMavenVersion(tagName: string): MavenVersionItem[] | null {
+  const cleaned = tagName.replace(/^v(?=\d)/i, '').toLowerCase();
+  if (!/^\d[0-9a-z._-]*$/.test(cleaned)) {
+    return null;
+  }
+
+  return [...cleaned.matchAll(/\d+|[a-z]+/g)].map((match): MavenVersionItem => {
+    const token = match[0];
+    if (/^\d/.test(token)) {
+      return parseInt(token, 10);
+    }
+    // "a1", "b2", "m3": single-letter shorthands only when a number follows directly
+    const followedByNumber = /\d/.test(cleaned[(match.index ?? 0) + token.length] ?? '');
+    const shorthand = SHORTHANDS.get(token);
+    if (followedByNumber && shorthand) {
+      return shorthand;
+    }
+    return QUALIFIER_ALIASES.get(token) ?? token;
+  });
+}
+
+/**
+ * Check if tag name is a Maven version
+ */
+export function isMavenVersion(tagName: string): boolean {
+  return parseMavenVersion(tagName) !== null;
+}
+
+/**
+ * Get the first qualifier of a Maven version that sorts before the release
+ * Examples: "1.0-beta-2" → "beta", "1.0-SNAPSHOT" → "snapshot", "1.0.0.RELEASE" → undefined, "1.0-sp1" → undefined
+ */
+export function getMavenPrerelease(tagName: string): string | undefined {
+  const releaseRank = QUALIFIER_ORDER.indexOf('');
+  return parseMavenVersion(tagName)?.find((item): item is string => {
+    const rank = typeof item === 'string' ? QUALIFIER_ORDER.indexOf(item) : -1;
+    return rank !== -1 && rank < releaseRank;
+  });
+}
+
+function compareQualifiers(qualifier1: string, qualifier2: string): number {
+  if (qualifier1 === qualifier2) return 0;
+  const rank1 = QUALIFIER_ORDER.indexOf(qualifier1);
+  const rank2 = QUALIFIER_ORDER.indexOf(qualifier2);
+  if (rank1 !== -1 && rank2 !== -1) return rank1 > rank2 ? 1 : -1;
+  if (rank1 !== -1) return -1;
+  if (rank2 !== -1) return 1;
+  return qualifier1 > qualifier2 ? 1 : -1;
+}
+
+/**
+ * Compare two items; a missing item counts as 0 against a number and as the
+ * release ("") against a qualifier, so "1.0" equals "1.0.0" and "1.0-SNAPSHOT" < "1.0"
+ */
+function compareItems(item1: MavenVersionItem | undefined, item2: MavenVersionItem | undefined): number {
+  if (item1 === undefined) item1 = typeof item2 === 'number' ? 0 : '';
+  if (item2 === undefined) item2 = typeof item1 === 'number' ? 0 : '';
+
+  if (typeof item1 === 'number' && typeof item2 === 'number') {
+    if (item1 === item2) return 0;
+    return item1 > item2 ? 1 : -1;
+  }
+  // Numbers are newer than qualifiers ("1.0.1" > "1.0-beta")
+  if (typeof item1 === 'number') return 1;
+  if (typeof item2 === 'number') return -1;
+  return compareQualifiers(item1, item2);
+}
+
+/**
+ * Compare two parsed Maven versions item by item
+ * Returns: -1 if version1 < version2, 0 if equal, 1 if version1 > version2
+ */
+export function compareMavenVersionItems(version1: MavenVersionItem[], version2: MavenVersionItem[]): number {
+  const length = Math.max(version1.length, version2.length);
+  for (let i = 0; i < length; i++) {
+    const comparison = compareItems(version1[i], version2[i]);
+    if (comparison !== 0) {
+      return comparison;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compare two Maven version tags
+ * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ */
+export function compareMavenVersion(tag1: string, tag2: string): number {
+  const version1 = parseMavenVersion(tag1);
+  const version2 = parseMavenVersion(tag2);
+
+  // If either is not a Maven version, they're equal for comparison purposes
+  if (!version1 || !version2) {
+    return 0;
+  }
+
+  return compareMavenVersionItems(version1, version2);
+}
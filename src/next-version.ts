@@ -0,0 +1,37 @@
+/**
+ * Next version computation for the resolved tag
+ */
+
+import { SemverBump, SEMVER_BUMPS, parseSemver, incrementSemver, formatSemver } from './semver';
+import { getBareVersion } from './tag-prefix';
+
+/**
+ * Next versions for each bump level, as full tag names
+ */
+export type NextVersions = Record<SemverBump, string>;
+
+/**
+ * Compute the next major, minor, patch and prerelease versions of a tag
+ * The tag's "v" prefix or component prefix is kept:
+ *   "v1.2.3" → { major: "v2.0.0", minor: "v1.3.0", patch: "v1.2.4", prerelease: "v1.2.4-0" }
+ *   "api@1.4.2" → { ..., patch: "api@1.4.3" }
+ *
+ * @param tagName - Resolved tag name
+ * @param tagPrefixes - Component prefixes (see getTagPrefixes), if any
+ * @returns Next versions, or undefined if the tag's version is not semver
+ */
+export function getNextVersions(tagName: string, tagPrefixes?: string[]): NextVersions | undefined {
+  const bareVersion = getBareVersion(tagName, tagPrefixes);
+  const semver = parseSemver(bareVersion);
+
+  if (!semver || !tagName.endsWith(bareVersion)) {
+    return undefined;
+  }
+
+  const prefix = tagName.slice(0, tagName.length - bareVersion.length);
+  const nextVersions = {} as NextVersions;
+  for (const bump of SEMVER_BUMPS) {
+    nextVersions[bump] = `${prefix}${formatSemver(incrementSemver(semver, bump))}`;
+  }
+  return nextVersions;
+}
@@ -0,0 +1,93 @@
+/**
+ * Loose numeric version utilities
+ * Versions with any number of dot-separated integers and an optional suffix,
+ * e.g. "3.23", "v1.2.3.4", "3.23-bae0df8a-ls3", "2.0rc1"; strict semver is a special case
+ */
+
+import { comparePrerelease } from './semver';
+
+/**
+ * Parsed numeric version
+ */
+export interface NumericVersionParts {
+  /** Dot-separated integers in order ("3.23.1" → [3, 23, 1]) */
+  numbers: number[];
+  /** Suffix after the numbers without its "-" separator ("3.23-ls3" → "ls3") */
+  suffix?: string;
+}
+
+/**
+ * Parse a numeric version from tag name
+ * A leading "v" is ignored, as is "+build" metadata
+ * Examples: "3.23" → [3, 23], "v1.2.3.4-beta" → [1, 2, 3, 4] + "beta", "2.0rc1" → [2, 0] + "rc1"
+ */
+export function parseNumericVersion(tagName: string): NumericVersionParts | null {
+  const match = tagName.match(
+    /^v?(\d+(?:\.\d+)*)(?:-([0-9A-Za-z.-]+)|([A-Za-z][0-9A-Za-z.-]*))?(?:\+[0-9A-Za-z.-]+)?$/i
+  );
+
+  if (!match) {
+    return null;
+  }
+
+  const numbers = match[1].split('.').map((part) => parseInt(part, 10));
+  const suffix = match[2] ?? match[3];
+  return suffix ? { numbers, suffix } : { numbers };
+}
+
+/**
+ * Check if tag name is a numeric version
+ */
+export function isNumericVersion(tagName: string): boolean {
+  return parseNumericVersion(tagName) !== null;
+}
+
+/**
+ * Get the prerelease part of a numeric version: a suffix that is not only numbers
+ * Examples: "3.23-rc1" → "rc1", "2.0beta" → "beta", "3.23-1" → undefined, "3.23" → undefined
+ */
+export function getNumericPrerelease(tagName: string): string | undefined {
+  const suffix = parseNumericVersion(tagName)?.suffix;
+  return suffix !== undefined && /[^\d.]/.test(suffix) ? suffix : undefined;
+}
+
+/**
+ * Compare two parsed numeric versions
+ * Numbers compare component by component, missing components count as 0 ("3.23" equals "3.23.0")
+ * With equal numbers, a version without suffix is newer (as with semver prereleases),
+ * and two suffixes compare with semver prerelease precedence
+ * Returns: -1 if version1 < version2, 0 if equal precedence, 1 if version1 > version2
+ */
+export function compareNumericVersionParts(version1: NumericVersionParts, version2: NumericVersionParts): number {
+  const length = Math.max(version1.numbers.length, version2.numbers.length);
+  for (let i = 0; i < length; i++) {
+    const num1 = version1.numbers[i] ?? 0;
+    const num2 = version2.numbers[i] ?? 0;
+    if (num1 !== num2) {
+      return num1 > num2 ? 1 : -1;
+    }
+  }
+
+  if (version1.suffix && version2.suffix) {
+    return comparePrerelease(version1.suffix, version2.suffix);
+  }
+  if (version1.suffix) return -1;
+  if (version2.suffix) return 1;
+  return 0;
+}
+
+/**
+ * Compare two numeric version tags
+ * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ */
+export function compareNumericVersion(tag1: string, tag2: string): number {
+  const version1 = parseNumericVersion(tag1);
+  const version2 = parseNumericVersion(tag2);
+
+  // If either is not a numeric version, they're equal for comparison purposes
+  if (!version1 || !version2) {
+    return 0;
+  }
+
+  return compareNumericVersionParts(version1, version2);
+}
@@ -0,0 +1,55 @@
+/**
+ * Step output helpers, optionally mirroring outputs to environment variables (export_env input)
+ */
+
+import * as core from '@actions/core';
+
+/**
+ * Sets a single step output
+ */
+export type OutputSetter = (name: string, value: string) => void;
+
+/**
+ * Outputs never exported as environment variables: JSON documents, lists and
+ * multi-line messages can exceed the size limit of the process environment
+ */
+const NON_EXPORTED_OUTPUTS = new Set([
+  'details',
+  'item_json',
+  'items_json',
+  'tags_json',
+  'match_json',
+  'commits_json',
+  'format_report',
+]);
+
+/**
+ * Check if an output is exported as an environment variable with export_env
+ */
+export function isExportedOutput(outputName: string): boolean {
+  return !NON_EXPORTED_OUTPUTS.has(outputName);
+}
+
+/**
+ * Environment variable name for an output: prefix plus the output name, upper-cased,
+ * with characters other than letters, digits and "_" replaced by "_"
+ * Example: ("UPSTREAM_", "commit_sha") → "UPSTREAM_COMMIT_SHA"
+ */
+export function getEnvVariableName(prefix: string, outputName: string): string {
+  return `${prefix}${outputName}`.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+}
+
+/**
+ * Create the setter used for every output
+ *
+ * @param exportEnv - Also export each output (see isExportedOutput) as an environment variable for later steps
+ * @param envPrefix - Prefix of the environment variable names (e.g. "UPSTREAM_")
+ */
+export function createOutputSetter(exportEnv: boolean, envPrefix: string = ''): OutputSetter {
+  return (name, value) => {
+    core.setOutput(name, value);
+    if (exportEnv && isExportedOutput(name)) {
+      core.exportVariable(getEnvVariableName(envPrefix, name), value);
+    }
+  };
+}
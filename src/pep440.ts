@@ -0,0 +1,198 @@
+/**
+ * PEP 440 (Python package) version utilities
+ * Examples: "1.2.0", "1.2.0rc1", "1.2.0.post1", "1.2.0.dev3", "2!1.0", "1.0+ubuntu.1"
+ * See https://peps.python.org/pep-0440/
+ */
+
+type PrePhase = 'a' | 'b' | 'rc';
+
+export interface Pep440Parts {
+  epoch: number;
+  release: number[];
+  /** Pre-release phase and number ("1.0rc1" → rc 1) */
+  pre?: { phase: PrePhase; number: number };
+  post?: number;
+  dev?: number;
+  local?: string;
+}
+
+const PEP440_REGEX = new RegExp(
+  '^v?' +
+    '(?:(\\d+)!)?' + // epoch
+    '(\\d+(?:\\.\\d+)*)' + // release
+    '(?:[-_.]?(alpha|beta|preview|pre|rc|a|b|c)[-_.]?(\\d+)?)?' + // pre-release
+    '(?:-(\\d+)|[-_.]?(post|rev|r)[-_.]?(\\d+)?)?' + // post-release
+    '(?:[-_.]?(dev)[-_.]?(\\d+)?)?' + // development release
+    '(?:\\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$', // local version
+  'i'
+);
+
+const PRE_PHASES: Record<string, PrePhase> = {
+  a: 'a',
+  alpha: 'a',
+  b: 'b',
+  beta: 'b',
+  c: 'rc',
+  rc: 'rc',
+  pre: 'rc',
+  preview: 'rc',
+};
+
+const PRE_PHASE_ORDER: PrePhase[] = ['a', 'b', 'rc'];
+
+/**
+ * Parse a PEP 440 version from tag name
+ * Alternative spellings are normalized: "1.0-alpha.2" → a2, "1.0-1" → post 1, "1.0.pre" → rc0
+ */
+export function parsePep440(tagName: string): Pep440Parts | null {
+  const match = tagName.match(PEP440_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, epoch, release, preLabel, preNumber, implicitPost, postLabel, postNumber, devLabel, devNumber, local] =
+    match;
+  const toNumber = (value?: string): number => (value ? parseInt(value, 10) : 0);
+
+  const parts: Pep440Parts = {
+    epoch: toNumber(epoch),
+    release: release.split('.').map((part) => parseInt(part, 10)),
+  };
+  if (preLabel) {
+    parts.pre = { phase: PRE_PHASES[preLabel.toLowerCase()], number: toNumber(preNumber) };
+  }
+  if (implicitPost !== undefined || postLabel) {
+    parts.post = toNumber(implicitPost ?? postNumber);
+  }
+  if (devLabel) {
+    parts.dev = toNumber(devNumber);
+  }
+  if (local) {
+    parts.local = local.toLowerCase();
+  }
+  return parts;
+}
+
+/**
+ * Check if tag name is a PEP 440 version
+ */
+export function isPep440(tagName: string): boolean {
+  return parsePep440(tagName) !== null;
+}
+
+/**
+ * Get the pre-release part of a PEP 440 version: its pre-release segment, or the
+ * development release segment of a version without one
+ * Examples: "1.2.0a1" → "a1", "1.2.0rc2.dev1" → "rc2", "1.2.0.dev3" → "dev3", "1.2.0.post1" → undefined
+ */
+export function getPep440Prerelease(tagName: string): string | undefined {
+  const version = parsePep440(tagName);
+  if (version?.pre) {
+    return `${version.pre.phase}${version.pre.number}`;
+  }
+  return version?.dev !== undefined ? `dev${version.dev}` : undefined;
+}
+
+function compareNumbers(a: number, b: number): number {
+  if (a === b) return 0;
+  return a > b ? 1 : -1;
+}
+
+/**
+ * Compare release segments; trailing zeros are insignificant ("1.0" equals "1.0.0")
+ */
+function compareRelease(release1: number[], release2: number[]): number {
+  const length = Math.max(release1.length, release2.length);
+  for (let i = 0; i < length; i++) {
+    const comparison = compareNumbers(release1[i] ?? 0, release2[i] ?? 0);
+    if (comparison !== 0) {
+      return comparison;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Sort key of the pre-release part: a development release of a final version
+ * ("1.0.dev1") sorts before its pre-releases, a final release after them
+ */
+function preKey(version: Pep440Parts): number[] {
+  if (version.pre) {
+    return [PRE_PHASE_ORDER.indexOf(version.pre.phase), version.pre.number];
+  }
+  if (version.dev !== undefined && version.post === undefined) {
+    return [-Infinity];
+  }
+  return [Infinity];
+}
+
+/**
+ * Compare local version labels: segments compare numerically when both are numbers,
+ * numbers sort after strings, and more segments win ("1.0+abc.5" > "1.0+abc")
+ */
+function compareLocal(local1?: string, local2?: string): number {
+  if (local1 === local2) return 0;
+  if (local1 === undefined) return -1;
+  if (local2 === undefined) return 1;
+
+  const segments1 = local1.split(/[-_.]/);
+  const segments2 = local2.split(/[-_.]/);
+  const length = Math.min(segments1.length, segments2.length);
+  for (let i = 0; i < length; i++) {
+    const isNum1 = /^\d+$/.test(segments1[i]);
+    const isNum2 = /^\d+$/.test(segments2[i]);
+    if (isNum1 && isNum2) {
+      const comparison = compareNumbers(parseInt(segments1[i], 10), parseInt(segments2[i], 10));
+      if (comparison !== 0) return comparison;
+    } else if (isNum1 !== isNum2) {
+      return isNum1 ? 1 : -1;
+    } else if (segments1[i] !== segments2[i]) {
+      return segments1[i] > segments2[i] ? 1 : -1;
+    }
+  }
+  return compareNumbers(segments1.length, segments2.length);
+}
+
+/**
+ * Compare two parsed PEP 440 versions
+ * Order: epoch, release, pre-release (dev < a < b < rc < final), post-release,
+ * development release (a ".devN" sorts before the version it belongs to), local version
+ * Returns: -1 if version1 < version2, 0 if equal, 1 if version1 > version2
+ */
+export function comparePep440Parts(version1: Pep440Parts, version2: Pep440Parts): number {
+  const epochComparison = compareNumbers(version1.epoch, version2.epoch);
+  if (epochComparison !== 0) return epochComparison;
+  const releaseComparison = compareRelease(version1.release, version2.release);
+  if (releaseComparison !== 0) return releaseComparison;
+
+  // Missing post-releases sort first, missing development releases last
+  const keys: Array<[number[], number[]]> = [
+    [preKey(version1), preKey(version2)],
+    [[version1.post ?? -Infinity], [version2.post ?? -Infinity]],
+    [[version1.dev ?? Infinity], [version2.dev ?? Infinity]],
+  ];
+  for (const [key1, key2] of keys) {
+    for (let i = 0; i < Math.max(key1.length, key2.length); i++) {
+      const comparison = compareNumbers(key1[i] ?? 0, key2[i] ?? 0);
+      if (comparison !== 0) return comparison;
+    }
+  }
+
+  return compareLocal(version1.local, version2.local);
+}
+
+/**
+ * Compare two PEP 440 version tags
+ * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ */
+export function comparePep440(tag1: string, tag2: string): number {
+  const version1 = parsePep440(tag1);
+  const version2 = parsePep440(tag2);
+
+  // If either is not a PEP 440 version, they're equal for comparison purposes
+  if (!version1 || !version2) {
+    return 0;
+  }
+
+  return comparePep440Parts(version1, version2);
+}
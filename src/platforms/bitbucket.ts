@@ -1,5 +1,5 @@
 import * as https from 'https';
-import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, ItemType, Platform, HttpResponse } from '../types';
+import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, ItemType, Platform, HttpResponse, CommitSummary } from '../types';
 import { Logger } from '../logger';
 
 /**
@@ -299,6 +299,58 @@ export class BitbucketAPI implements PlatformAPI {
     // Bitbucket doesn't have releases, so return tags with dates
     return this.getAllTags();
   }
+
+  /**
+   * Get commits on the main branch since a tag (newest first)
+   */
+  async getCommitsSince(tagName: string): Promise<CommitSummary[]> {
+    const repoUrl = `${this.baseUrl}/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+
+    try {
+      const repoResponse = await httpRequest(repoUrl, this.config.token, this.config.ignoreCertErrors, this.logger);
+      if (repoResponse.statusCode !== 200) {
+        throw new Error(
+          `Bitbucket API error: ${repoResponse.statusCode} - ${repoResponse.body}`
+        );
+      }
+      const mainBranch = JSON.parse(repoResponse.body).mainbranch?.name || 'main';
+
+      const allCommits: CommitSummary[] = [];
+      let nextUrl: string | null =
+        `${repoUrl}/commits/${encodeURIComponent(mainBranch)}?exclude=${encodeURIComponent(tagName)}&pagelen=100`;
+
+      while (nextUrl) {
+        const response = await httpRequest(nextUrl, this.config.token, this.config.ignoreCertErrors, this.logger);
+
+        if (response.statusCode !== 200) {
+          throw new Error(
+            `Bitbucket API error: ${response.statusCode} - ${response.body}`
+          );
+        }
+
+        const data = JSON.parse(response.body);
+        const commits = data.values || [];
+
+        if (commits.length === 0) {
+          break;
+        }
+
+        for (const commit of commits) {
+          allCommits.push({ sha: commit.hash || '', message: commit.message || '' });
+        }
+
+        // Check for next page
+        nextUrl = data.next || null;
+      }
+
+      return allCommits;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get commits from Bitbucket: ${error.message}`);
+      }
+      throw error;
+    }
+  }
 }
 
 /**
@@ -1,4 +1,4 @@
-import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, ItemType, Platform } from '../types';
+import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, ItemType, Platform, ReleaseSummary, CommitSummary } from '../types';
 import { Logger } from '../logger';
 import { HttpClient } from './http-client';
 
@@ -353,11 +353,11 @@ export class GiteaAPI implements PlatformAPI {
   /**
    * Get all releases with dates
    */
-  async getAllReleases(): Promise<Array<{ name: string; date: string }>> {
+  async getAllReleases(): Promise<ReleaseSummary[]> {
     const url = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/releases?limit=100`;
 
     try {
-      const allReleases: Array<{ name: string; date: string }> = [];
+      const allReleases: ReleaseSummary[] = [];
       let page = 1;
       let hasMore = true;
 
@@ -377,12 +377,13 @@ export class GiteaAPI implements PlatformAPI {
           break;
         }
 
-        // Extract release tag names and published dates
+        // Extract release tag names, published dates and prerelease flags
         for (const release of releases) {
           if (release.tag_name) {
             allReleases.push({
               name: release.tag_name,
               date: release.published_at || release.created_at || '',
+              is_prerelease: release.is_prerelease || false,
             });
           }
         }
@@ -403,6 +404,48 @@ export class GiteaAPI implements PlatformAPI {
       throw error;
     }
   }
+
+  /**
+   * Get commits on the default branch since a tag (compare endpoint, Gitea 1.22+)
+   */
+  async getCommitsSince(tagName: string): Promise<CommitSummary[]> {
+    const repoUrl = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+
+    try {
+      const repoResponse = await this.client.get(repoUrl);
+      if (repoResponse.statusCode !== 200) {
+        throw new Error(
+          `Gitea API error: ${repoResponse.statusCode} - ${repoResponse.body}`
+        );
+      }
+      const defaultBranch = JSON.parse(repoResponse.body).default_branch;
+
+      const response = await this.client.get(
+        `${repoUrl}/compare/${encodeURIComponent(tagName)}...${encodeURIComponent(defaultBranch)}`
+      );
+      if (response.statusCode !== 200) {
+        throw new Error(
+          `Gitea API error: ${response.statusCode} - ${response.body}`
+        );
+      }
+
+      const comparison = JSON.parse(response.body);
+      const commits = Array.isArray(comparison.commits) ? comparison.commits : [];
+
+      // The compare endpoint lists commits oldest first
+      return commits
+        .map((commit: { sha: string; commit?: { message?: string } }) => ({
+          sha: commit.sha,
+          message: commit.commit?.message || '',
+        }))
+        .reverse();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get commits from Gitea: ${error.message}`);
+      }
+      throw error;
+    }
+  }
 }
 
 /**
@@ -2,7 +2,7 @@ import * as https from 'https';
 import { Octokit } from '@octokit/rest';
 import { throttling } from '@octokit/plugin-throttling';
 import * as core from '@actions/core';
-import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, ItemType, Platform } from '../types';
+import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, ItemType, Platform, ReleaseSummary, CommitSummary } from '../types';
 import { Logger } from '../logger';
 
 // Create Octokit with throttling plugin for automatic rate limit handling
@@ -324,7 +324,7 @@ export class GitHubAPI implements PlatformAPI {
   /**
    * Get all releases with dates
    */
-  async getAllReleases(): Promise<Array<{ name: string; date: string }>> {
+  async getAllReleases(): Promise<ReleaseSummary[]> {
     try {
       const { data: releases } = await this.octokit.repos.listReleases({
         owner: this.repoInfo.owner,
@@ -332,10 +332,11 @@ export class GitHubAPI implements PlatformAPI {
         per_page: 100,
       });
 
-      // Extract release tag names and published dates
-      const allReleases: Array<{ name: string; date: string }> = releases.map((release) => ({
+      // Extract release tag names, published dates and prerelease flags
+      const allReleases: ReleaseSummary[] = releases.map((release) => ({
         name: release.tag_name,
         date: release.published_at || release.created_at || '',
+        is_prerelease: release.prerelease || false,
       }));
 
       return allReleases;
@@ -346,6 +347,50 @@ export class GitHubAPI implements PlatformAPI {
       throw new Error(`Failed to get releases from GitHub: ${String(error)}`);
     }
   }
+
+  /**
+   * Get commits on the default branch since a tag (compare endpoint)
+   */
+  async getCommitsSince(tagName: string): Promise<CommitSummary[]> {
+    try {
+      const { data: repoData } = await this.octokit.repos.get({
+        owner: this.repoInfo.owner,
+        repo: this.repoInfo.repo,
+      });
+
+      const allCommits: CommitSummary[] = [];
+      let page = 1;
+      let hasMore = true;
+
+      while (hasMore) {
+        const { data: comparison } = await this.octokit.repos.compareCommitsWithBasehead({
+          owner: this.repoInfo.owner,
+          repo: this.repoInfo.repo,
+          basehead: `${tagName}...${repoData.default_branch}`,
+          per_page: 100,
+          page,
+        });
+
+        for (const commit of comparison.commits) {
+          allCommits.push({ sha: commit.sha, message: commit.commit.message || '' });
+        }
+
+        if (comparison.commits.length < 100 || allCommits.length >= comparison.total_commits) {
+          hasMore = false;
+        } else {
+          page++;
+        }
+      }
+
+      // The compare endpoint lists commits oldest first
+      return allCommits.reverse();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get commits from GitHub: ${error.message}`);
+      }
+      throw new Error(`Failed to get commits from GitHub: ${String(error)}`);
+    }
+  }
 }
 
 /**
@@ -1,6 +1,10 @@
-import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, Platform } from '../types';
+import { PlatformAPI, RepositoryInfo, PlatformConfig, ItemInfo, Platform, CommitSummary } from '../types';
 import { Logger } from '../logger';
-import { getTagInfo as getLocalTagInfo, getAllTags as getLocalTags } from '../git-client';
+import {
+  getTagInfo as getLocalTagInfo,
+  getAllTags as getLocalTags,
+  getCommitsSince as getLocalCommitsSince,
+} from '../git-client';
 
 /**
  * Local Git API client
@@ -73,6 +77,16 @@ export class LocalGitAPI implements PlatformAPI {
   async getAllReleases(): Promise<Array<{ name: string; date: string }>> {
     throw new Error('Releases are not supported for local repositories');
   }
+
+  /**
+   * Get commits on HEAD since a tag
+   */
+  async getCommitsSince(tagName: string): Promise<CommitSummary[]> {
+    if (!this.repoInfo.path) {
+      throw new Error('Local repository path is required');
+    }
+    return getLocalCommitsSince(tagName, this.repoInfo.path);
+  }
 }
 
 /**
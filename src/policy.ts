@@ -0,0 +1,76 @@
+/**
+ * Policy gates evaluated against the looked-up items (tags or releases)
+ */
+
+import { ItemInfo, ItemType, Platform } from './types';
+import { SortStrategy, createSortStrategy } from './sort-strategies';
+
+/**
+ * Conditions a looked-up item must meet
+ */
+export interface ItemPolicy {
+  /** The item must exist */
+  failIfMissing: boolean;
+  /** The tag must be annotated (tags only) */
+  requireAnnotated: boolean;
+  /** The tag must have a verified signature (tags only) */
+  requireVerified: boolean;
+  /** The release must not be a draft */
+  forbidDraft: boolean;
+  /** The release must not be a prerelease, nor the version a prerelease of its version scheme */
+  forbidPrerelease: boolean;
+}
+
+/**
+ * Check that every enabled gate can be evaluated on the platform
+ *
+ * @throws Error for require_verified on Bitbucket, whose API does not report tag signatures
+ */
+export function assertPolicySupported(policy: ItemPolicy, platform: Platform): void {
+  if (policy.requireVerified && platform === Platform.BITBUCKET) {
+    throw new Error(
+      'require_verified is not available on Bitbucket: tag signature verification is not available through the Bitbucket API'
+    );
+  }
+}
+
+/**
+ * Check an item against the policy
+ * Missing items only violate fail_if_missing; the other gates apply to existing items
+ *
+ * @param info - Looked-up item
+ * @param policy - Enabled gates
+ * @param itemLabel - "tag" or "release", for messages
+ * @param version - Bare version of the item (default: its name); a prerelease version
+ *   (e.g. "1.2.0-rc.1") violates forbid_prerelease, as tags have no prerelease flag
+ * @param strategy - Strategy whose version scheme decides what a prerelease is (default: semver)
+ * @returns Reasons for each violated gate (empty if the item passes)
+ */
+export function getPolicyViolations(
+  info: ItemInfo,
+  policy: ItemPolicy,
+  itemLabel: string,
+  version: string = info.name,
+  strategy: SortStrategy = createSortStrategy('semver')
+): string[] {
+  const label = `${itemLabel.charAt(0).toUpperCase() + itemLabel.slice(1)} "${info.name}"`;
+
+  if (!info.exists) {
+    return policy.failIfMissing ? [`${label} does not exist (fail_if_missing)`] : [];
+  }
+
+  const violations: string[] = [];
+  if (policy.requireAnnotated && info.item_type !== ItemType.TAG) {
+    violations.push(`${label} is a lightweight tag, not an annotated tag (require_annotated)`);
+  }
+  if (policy.requireVerified && !info.verified) {
+    violations.push(`${label} does not have a verified signature (require_verified)`);
+  }
+  if (policy.forbidDraft && info.is_draft) {
+    violations.push(`${label} is a draft (forbid_draft)`);
+  }
+  if (policy.forbidPrerelease && (info.is_prerelease || strategy.isPrerelease({ name: version, date: '' }))) {
+    violations.push(`${label} is a prerelease (forbid_prerelease)`);
+  }
+  return violations;
+}
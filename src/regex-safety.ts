@@ -0,0 +1,383 @@
+/**
+ * Static safety checks for user-supplied regular expressions
+ * Patterns are matched against every tag of a repository, so a regex prone to
+ * catastrophic backtracking can stall the action; such patterns are rejected up front
+ */
+
+/**
+ * Parsed regex atom (character, escape, class, "." or group) with its quantifier
+ */
+interface RegexAtom {
+  /** Source text of the atom including its quantifier */
+  text: string;
+  /** Source text without the quantifier */
+  body: string;
+  /** Alternatives of a group, each a sequence of atoms */
+  alternatives?: RegexAtom[][];
+  /** Literal character matched by a plain or escaped character */
+  literal?: string;
+  /** Anchors and word boundaries match no characters */
+  zeroWidth: boolean;
+  min: number;
+  max: number;
+}
+
+/** Characters probed to find overlapping alternatives (printable ASCII) */
+const PROBE_CHARS = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i));
+
+/**
+ * Longest run of unbounded quantifiers over a shared character accepted in one sequence:
+ * a failing match tries every split of the input between them, which takes polynomial
+ * time of the run length's degree ("\d*\d*\d*" is cubic in the tag length)
+ */
+const MAX_OVERLAPPING_RUN = 2;
+
+const QUANTIFIER_REGEX = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/;
+const GROUP_HEAD_REGEX = /^\?(?:<[=!]|[:=!]|<[^>]*>)/;
+
+/**
+ * Small recursive-descent parser for the subset of regex syntax relevant to backtracking
+ */
+class RegexParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): RegexAtom[][] {
+    const alternatives = this.parseAlternatives();
+    // Stray ")" (invalid regex): parse the rest as a sibling sequence
+    while (this.index < this.source.length) {
+      this.index++;
+      alternatives.push(...this.parseAlternatives());
+    }
+    return alternatives;
+  }
+
+  private parseAlternatives(): RegexAtom[][] {
+    const alternatives: RegexAtom[][] = [[]];
+    while (this.index < this.source.length && this.source[this.index] !== ')') {
+      if (this.source[this.index] === '|') {
+        this.index++;
+        alternatives.push([]);
+        continue;
+      }
+      alternatives[alternatives.length - 1].push(this.parseAtom());
+    }
+    return alternatives;
+  }
+
+  private parseAtom(): RegexAtom {
+    const start = this.index;
+    const char = this.source[this.index];
+    let alternatives: RegexAtom[][] | undefined;
+    let literal: string | undefined;
+    let zeroWidth = false;
+
+    if (char === '(') {
+      this.index++;
+      const head = this.source.slice(this.index).match(GROUP_HEAD_REGEX);
+      zeroWidth = !!head && /^\?<?[=!]/.test(head[0]);
+      this.index += head ? head[0].length : 0;
+      alternatives = this.parseAlternatives();
+      this.index++; // ")"
+    } else if (char === '[') {
+      this.index = this.findClassEnd(this.index);
+    } else if (char === '\\') {
+      const escaped = this.source[this.index + 1] ?? '';
+      this.index += 2;
+      if (/[bB]/.test(escaped)) {
+        zeroWidth = true;
+      } else if (!/[0-9A-Za-z]/.test(escaped)) {
+        literal = escaped;
+      }
+    } else {
+      this.index++;
+      if (char === '^' || char === '$') {
+        zeroWidth = true;
+      } else if (char !== '.') {
+        literal = char;
+      }
+    }
+
+    const body = this.source.slice(start, this.index);
+    let min = 1;
+    let max = 1;
+    const quantifier = this.source.slice(this.index).match(QUANTIFIER_REGEX);
+    if (quantifier) {
+      this.index += quantifier[0].length;
+      if (quantifier[1]) {
+        min = quantifier[1] === '+' ? 1 : 0;
+        max = quantifier[1] === '?' ? 1 : Infinity;
+      } else {
+        min = parseInt(quantifier[2], 10);
+        max = !quantifier[3] ? min : quantifier[4] ? parseInt(quantifier[4], 10) : Infinity;
+      }
+    }
+
+    return { text: this.source.slice(start, this.index), body, alternatives, literal, zeroWidth, min, max };
+  }
+
+  /**
+   * Index just after the "]" closing the character class starting at classStart
+   */
+  private findClassEnd(classStart: number): number {
+    let i = classStart + 1;
+    if (this.source[i] === '^') i++;
+    if (this.source[i] === ']') i++;
+    while (i < this.source.length && this.source[i] !== ']') {
+      i += this.source[i] === '\\' ? 2 : 1;
+    }
+    return i + 1;
+  }
+}
+
+function getAtoms(alternatives: RegexAtom[][]): RegexAtom[] {
+  return alternatives.flatMap((sequence) =>
+    sequence.flatMap((atom) => [atom, ...(atom.alternatives ? getAtoms(atom.alternatives) : [])])
+  );
+}
+
+/**
+ * Non-group atoms that can repeat: quantified themselves or inside a quantified group
+ */
+function getRepeatingAtoms(alternatives: RegexAtom[][], repeated = false): RegexAtom[] {
+  return alternatives.flatMap((sequence) =>
+    sequence.flatMap((atom) =>
+      atom.alternatives
+        ? getRepeatingAtoms(atom.alternatives, repeated || atom.max > 1)
+        : repeated || atom.max > 1
+        ? [atom]
+        : []
+    )
+  );
+}
+
+/**
+ * Whether a non-group atom can match the given character
+ */
+function canMatch(atom: RegexAtom, char: string, flags: string): boolean {
+  try {
+    return new RegExp(`^(?:${atom.body})$`, flags).test(char);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Whether every repetition of a group must start or end with a fixed character that
+ * none of its repeating atoms can match, e.g. "(?:\.\d+)*" or "(\d+\.)+"
+ * Repetitions are then split unambiguously and backtracking stays linear
+ */
+function isDelimited(alternatives: RegexAtom[][], flags: string): boolean {
+  if (alternatives.length !== 1) {
+    return false;
+  }
+  const sequence = alternatives[0].filter((atom) => !atom.zeroWidth);
+  const repeating = getRepeatingAtoms(alternatives);
+  const edges = [sequence[0], sequence[sequence.length - 1]];
+
+  return edges.some(
+    (edge) =>
+      edge?.literal !== undefined &&
+      edge.min === 1 &&
+      edge.max === 1 &&
+      !repeating.some((atom) => canMatch(atom, edge.literal as string, flags))
+  );
+}
+
+/**
+ * Find a nested quantifier that can cause catastrophic backtracking:
+ * a repeated group containing a repeated atom, such as "(a+)+" or "(\d*\.?)*",
+ * unless its repetitions are separated by a fixed delimiter ("(?:\.\d+)*" is safe)
+ *
+ * @param source - Regex source (without "/" delimiters or flags)
+ * @param flags - Regex flags (e.g. "i" makes "a" and "A" overlap)
+ * @returns The offending group with its quantifier, or undefined if none is found
+ */
+export function findNestedQuantifier(source: string, flags = ''): string | undefined {
+  const atoms = getAtoms(new RegexParser(source).parse());
+
+  for (const atom of atoms) {
+    if (!atom.alternatives || atom.max <= 1) {
+      continue;
+    }
+    const innerRepeat = getAtoms(atom.alternatives).some((inner) => inner.max > 1);
+    if (innerRepeat && !isDelimited(atom.alternatives, flags)) {
+      return atom.text;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Atoms that can match the first character of a sequence (skipping optional atoms)
+ */
+function getFirstAtoms(sequence: RegexAtom[]): RegexAtom[] {
+  const first: RegexAtom[] = [];
+  for (const atom of sequence) {
+    if (atom.zeroWidth) {
+      continue;
+    }
+    if (atom.alternatives) {
+      first.push(...atom.alternatives.flatMap(getFirstAtoms));
+    } else {
+      first.push(atom);
+    }
+    if (atom.min >= 1) {
+      break;
+    }
+  }
+  return first;
+}
+
+/**
+ * Whether two alternatives of a group can start with the same character
+ */
+function hasOverlappingAlternatives(alternatives: RegexAtom[][], flags: string): boolean {
+  const firstChars = alternatives.map((sequence) => {
+    const atoms = getFirstAtoms(sequence);
+    return new Set(PROBE_CHARS.filter((char) => atoms.some((atom) => canMatch(atom, char, flags))));
+  });
+
+  return firstChars.some((chars, i) =>
+    firstChars.slice(i + 1).some((other) => [...chars].some((char) => other.has(char)))
+  );
+}
+
+/**
+ * Find a repeated group whose alternatives can start with the same character, such as
+ * "(\w|\d)+" or "(\d|\d\d)+": each repetition can then be split in several ways,
+ * which backtracks exponentially when the rest of the regex fails to match
+ * Groups inside a repeated group count as repeated ("((a|a)b)+")
+ *
+ * @param source - Regex source (without "/" delimiters or flags)
+ * @param flags - Regex flags (e.g. "i" makes "a" and "A" overlap)
+ * @returns The offending group, or undefined if none is found
+ */
+export function findOverlappingAlternatives(source: string, flags = ''): string | undefined {
+  const visit = (alternatives: RegexAtom[][], repeated: boolean): string | undefined => {
+    for (const atom of alternatives.flat()) {
+      if (!atom.alternatives || atom.zeroWidth) {
+        continue;
+      }
+      const atomRepeated = repeated || atom.max > 1;
+      if (atomRepeated && atom.alternatives.length > 1 && hasOverlappingAlternatives(atom.alternatives, flags)) {
+        return atom.text;
+      }
+      const inner = visit(atom.alternatives, atomRepeated);
+      if (inner) {
+        return inner;
+      }
+    }
+    return undefined;
+  };
+
+  return visit(new RegexParser(source).parse(), false);
+}
+
+/**
+ * Atoms of a sequence with plain groups ("(...)", "(?:...)", "(?<name>...)" with a single
+ * alternative and no quantifier) replaced by their contents
+ */
+function flattenSequence(sequence: RegexAtom[]): RegexAtom[] {
+  return sequence.flatMap((atom) =>
+    atom.alternatives && atom.alternatives.length === 1 && !atom.zeroWidth && atom.min === 1 && atom.max === 1
+      ? flattenSequence(atom.alternatives[0])
+      : [atom]
+  );
+}
+
+/**
+ * Printable ASCII characters an atom can match (for a group: its first characters)
+ */
+function getMatchedChars(atom: RegexAtom, flags: string): Set<string> {
+  const atoms = atom.alternatives ? atom.alternatives.flatMap(getFirstAtoms) : [atom];
+  return new Set(PROBE_CHARS.filter((char) => atoms.some((inner) => canMatch(inner, char, flags))));
+}
+
+/**
+ * Find a run of more than two unbounded quantifiers that can all match the same character,
+ * with nothing in between that only they cannot match, such as "\d*\d*\d*" or ".*-.*-.*":
+ * a failing match tries every way of splitting the input between them, which takes
+ * polynomial time of the run's length (two, as in "\d+.*", stay quadratic and are accepted)
+ *
+ * @param source - Regex source (without "/" delimiters or flags)
+ * @param flags - Regex flags (e.g. "i" makes "a" and "A" overlap)
+ * @returns The offending run of atoms, or undefined if none is found
+ */
+export function findOverlappingQuantifiers(source: string, flags = ''): string | undefined {
+  const visit = (alternatives: RegexAtom[][]): string | undefined => {
+    for (const sequence of alternatives) {
+      let run: RegexAtom[] = [];
+      let shared = new Set<string>();
+
+      for (const atom of flattenSequence(sequence)) {
+        if (atom.alternatives) {
+          const inner = visit(atom.alternatives);
+          if (inner) {
+            return inner;
+          }
+        }
+        if (atom.zeroWidth) {
+          continue;
+        }
+
+        const chars = getMatchedChars(atom, flags);
+        const common = new Set([...shared].filter((char) => chars.has(char)));
+        if (atom.max === Infinity && !atom.alternatives) {
+          run = common.size > 0 ? [...run, atom] : [atom];
+          shared = common.size > 0 ? common : chars;
+          if (run.length > MAX_OVERLAPPING_RUN) {
+            return run.map((runAtom) => runAtom.text).join(' ... ');
+          }
+        } else if (common.size === 0 && atom.min > 0) {
+          // A required character the run cannot match splits the input unambiguously
+          run = [];
+          shared = new Set();
+        }
+      }
+    }
+    return undefined;
+  };
+
+  return visit(new RegexParser(source).parse());
+}
+
+/**
+ * Reject a regex prone to catastrophic backtracking
+ *
+ * @param source - Regex source (without "/" delimiters or flags)
+ * @param pattern - Pattern as written by the user, for the error message
+ * @param flags - Regex flags
+ * @param patternLabel - Kind of pattern named in the error message (default "regex pattern")
+ * @throws Error naming the pattern and the offending nested quantifier, alternation or run of quantifiers
+ */
+export function assertSafeRegex(source: string, pattern: string, flags = '', patternLabel = 'regex pattern'): void {
+  const unsafe = `Unsafe ${patternLabel} "${pattern}"`;
+  const nested = findNestedQuantifier(source, flags);
+  if (nested) {
+    throw new Error(
+      `${unsafe}: nested quantifier "${nested}" can cause catastrophic backtracking. ` +
+        'Make the inner or outer repetition unambiguous, e.g. "^v\\d+(?:\\.\\d+)*$"'
+    );
+  }
+
+  const overlapping = findOverlappingAlternatives(source, flags);
+  if (overlapping) {
+    throw new Error(
+      `${unsafe}: repeated group "${overlapping}" has alternatives that can match ` +
+        'the same character, which can cause catastrophic backtracking. ' +
+        'Make the alternatives start with distinct characters, e.g. "(?:[a-z]|\\d)+" instead of "(?:\\w|\\d)+"'
+    );
+  }
+
+  const run = findOverlappingQuantifiers(source, flags);
+  if (run) {
+    throw new Error(
+      `${unsafe}: unbounded quantifiers "${run}" can match the same characters, which makes ` +
+        'failing matches backtrack polynomially. Separate them with characters they cannot match, ' +
+        'e.g. "^([^-]*)-([^-]*)-(.*)$" instead of "^(.*)-(.*)-(.*)$"'
+    );
+  }
+}
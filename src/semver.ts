@@ -44,18 +44,70 @@ export function isSemver(tagName: string): boolean {
 }
 
 /**
- * Compare two semantic version tags
- * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ * Get the prerelease channel of a semver tag
+ * The channel is the leading alphabetic part of the first prerelease identifier
+ * Examples: "v2.0.0-rc.1" → "rc", "1.0.0-beta2" → "beta", "1.0.0" → undefined
  */
-export function compareSemver(tag1: string, tag2: string): number {
-  const semver1 = parseSemver(tag1);
-  const semver2 = parseSemver(tag2);
+export function getPrereleaseChannel(tagName: string): string | undefined {
+  const semver = parseSemver(tagName);
+  if (!semver?.prerelease) {
+    return undefined;
+  }
+  const channelMatch = semver.prerelease.match(/^[A-Za-z]+/);
+  return channelMatch ? channelMatch[0].toLowerCase() : '';
+}
 
-  // If either is not semver, they're equal for comparison purposes
-  if (!semver1 || !semver2) {
-    return 0;
+/**
+ * Compare two prerelease strings using SemVer 2.0.0 precedence rules
+ * Identifiers are compared dot by dot: numeric identifiers numerically,
+ * alphanumeric identifiers lexically (ASCII), and numeric identifiers always
+ * have lower precedence than alphanumeric ones. A larger set of identifiers
+ * wins when all preceding identifiers are equal.
+ * Returns: -1 if pre1 < pre2, 0 if pre1 === pre2, 1 if pre1 > pre2
+ */
+export function comparePrerelease(pre1: string, pre2: string): number {
+  const ids1 = pre1.split('.');
+  const ids2 = pre2.split('.');
+  const length = Math.max(ids1.length, ids2.length);
+
+  for (let i = 0; i < length; i++) {
+    const id1 = ids1[i];
+    const id2 = ids2[i];
+
+    // A shorter set of identifiers has lower precedence
+    if (id1 === undefined) return -1;
+    if (id2 === undefined) return 1;
+
+    const isNum1 = /^\d+$/.test(id1);
+    const isNum2 = /^\d+$/.test(id2);
+
+    if (isNum1 && isNum2) {
+      const num1 = parseInt(id1, 10);
+      const num2 = parseInt(id2, 10);
+      if (num1 !== num2) {
+        return num1 > num2 ? 1 : -1;
+      }
+      continue;
+    }
+
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (isNum1) return -1;
+    if (isNum2) return 1;
+
+    if (id1 !== id2) {
+      return id1 > id2 ? 1 : -1;
+    }
   }
 
+  return 0;
+}
+
+/**
+ * Compare two parsed semantic versions by SemVer 2.0.0 precedence
+ * Build metadata is ignored
+ * Returns: -1 if semver1 < semver2, 0 if equal precedence, 1 if semver1 > semver2
+ */
+export function compareSemverParts(semver1: SemverParts, semver2: SemverParts): number {
   // Compare major version
   if (semver1.major !== semver2.major) {
     return semver1.major > semver2.major ? 1 : -1;
@@ -73,10 +125,7 @@ export function compareSemver(tag1: string, tag2: string): number {
 
   // Compare prerelease versions
   if (semver1.prerelease && semver2.prerelease) {
-    // Both have prerelease, compare lexicographically
-    if (semver1.prerelease < semver2.prerelease) return -1;
-    if (semver1.prerelease > semver2.prerelease) return 1;
-    return 0;
+    return comparePrerelease(semver1.prerelease, semver2.prerelease);
   }
 
   // Version without prerelease is greater than version with prerelease
@@ -87,21 +136,115 @@ export function compareSemver(tag1: string, tag2: string): number {
     return 1;
   }
 
-  // Versions are equal
+  // Versions have equal precedence
   return 0;
 }
 
+/**
+ * Compare two semantic version tags
+ * Returns: -1 if tag1 < tag2, 0 if tag1 === tag2, 1 if tag1 > tag2
+ * Tags that differ only in a "v" prefix or build metadata have equal precedence
+ */
+export function compareSemver(tag1: string, tag2: string): number {
+  const semver1 = parseSemver(tag1);
+  const semver2 = parseSemver(tag2);
+
+  // If either is not semver, they're equal for comparison purposes
+  if (!semver1 || !semver2) {
+    return 0;
+  }
+
+  return compareSemverParts(semver1, semver2);
+}
+
 /**
  * Sort tags by semantic version (highest first)
+ * Tags with equal precedence (e.g. "v1.2.3" and "1.2.3", or differing build
+ * metadata) are ordered by tag name so the result does not depend on the
+ * order the platform API returned them in. Non-semver tags sort after all
+ * semver tags, also by name.
  */
 export function sortTagsBySemver(tags: string[]): string[] {
   return [...tags].sort((a, b) => {
-    const comparison = compareSemver(b, a); // Reverse for descending order
-    if (comparison !== 0) {
-      return comparison;
+    const semverA = parseSemver(a);
+    const semverB = parseSemver(b);
+
+    if (semverA && semverB) {
+      const comparison = compareSemverParts(semverB, semverA); // Reverse for descending order
+      if (comparison !== 0) {
+        return comparison;
+      }
+    } else if (semverA || semverB) {
+      return semverA ? -1 : 1;
     }
-    // If semver comparison is equal, maintain original order
-    return 0;
+
+    // Deterministic tie-break on the raw tag name
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
   });
 }
 
+/**
+ * Version bump levels
+ */
+export type SemverBump = 'major' | 'minor' | 'patch' | 'prerelease';
+
+export const SEMVER_BUMPS: SemverBump[] = ['major', 'minor', 'patch', 'prerelease'];
+
+/**
+ * Format semantic version parts as a version string (without "v" prefix)
+ */
+export function formatSemver(semver: SemverParts): string {
+  let version = `${semver.major}.${semver.minor}.${semver.patch}`;
+  if (semver.prerelease) {
+    version += `-${semver.prerelease}`;
+  }
+  if (semver.build) {
+    version += `+${semver.build}`;
+  }
+  return version;
+}
+
+/**
+ * Increment a semantic version (same rules as npm's semver.inc)
+ * - major: 1.2.3 → 2.0.0, 2.0.0-rc.1 → 2.0.0
+ * - minor: 1.2.3 → 1.3.0, 1.3.0-rc.1 → 1.3.0
+ * - patch: 1.2.3 → 1.2.4, 1.2.4-rc.1 → 1.2.4
+ * - prerelease: 1.2.3 → 1.2.4-0, 1.2.4-rc.1 → 1.2.4-rc.2, 1.2.4-rc → 1.2.4-rc.0
+ * Build metadata is dropped
+ */
+export function incrementSemver(semver: SemverParts, bump: SemverBump): SemverParts {
+  const { major, minor, patch, prerelease } = semver;
+
+  switch (bump) {
+    case 'major':
+      if (minor !== 0 || patch !== 0 || !prerelease) {
+        return { major: major + 1, minor: 0, patch: 0 };
+      }
+      return { major, minor: 0, patch: 0 };
+    case 'minor':
+      if (patch !== 0 || !prerelease) {
+        return { major, minor: minor + 1, patch: 0 };
+      }
+      return { major, minor, patch: 0 };
+    case 'patch':
+      if (!prerelease) {
+        return { major, minor, patch: patch + 1 };
+      }
+      return { major, minor, patch };
+    case 'prerelease':
+    default: {
+      if (!prerelease) {
+        return { major, minor, patch: patch + 1, prerelease: '0' };
+      }
+      const identifiers = prerelease.split('.');
+      const lastNumeric = identifiers.map((id) => /^\d+$/.test(id)).lastIndexOf(true);
+      if (lastNumeric === -1) {
+        identifiers.push('0');
+      } else {
+        identifiers[lastNumeric] = String(parseInt(identifiers[lastNumeric], 10) + 1);
+      }
+      return { major, minor, patch, prerelease: identifiers.join('.') };
+    }
+  }
+}
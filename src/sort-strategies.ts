@@ -0,0 +1,404 @@
+/**
+ * Sort strategies for ordering candidate tags and releases
+ * Each strategy decides which items it can order and how two items compare
+ */
+
+import { isSemver, compareSemver, parseSemver } from './semver';
+import { isNumericVersion, parseNumericVersion, compareNumericVersion, getNumericPrerelease } from './numeric-version';
+import { isPep440, comparePep440, getPep440Prerelease } from './pep440';
+import { isMavenVersion, compareMavenVersion, getMavenPrerelease } from './maven-version';
+import { isDebianVersion, compareDebianVersion, getDebianPrerelease } from './debian-version';
+import { CalverLayout, compileCalverLayout, isCalver, compareCalver } from './calver';
+import { TagTemplate, TemplateComponents, compileTemplatePattern, parseTemplateComponents } from './format-matcher';
+
+/**
+ * Supported sort_by values
+ */
+export type SortStrategyName =
+  | 'auto'
+  | 'semver'
+  | 'numeric'
+  | 'pep440'
+  | 'maven'
+  | 'debian'
+  | 'calver'
+  | 'template'
+  | 'date'
+  | 'natural'
+  | 'lexical';
+
+export const SORT_STRATEGY_NAMES: SortStrategyName[] = [
+  'auto',
+  'semver',
+  'numeric',
+  'pep440',
+  'maven',
+  'debian',
+  'calver',
+  'template',
+  'date',
+  'natural',
+  'lexical',
+];
+
+/**
+ * Version schemes selectable with the version_scheme input
+ */
+export type VersionScheme = 'semver' | 'pep440' | 'maven' | 'debian';
+
+export const VERSION_SCHEMES: VersionScheme[] = ['semver', 'pep440', 'maven', 'debian'];
+
+/**
+ * Item as seen by a sort strategy
+ */
+export interface SortableItem {
+  name: string;
+  date: string;
+}
+
+/**
+ * Strategy for ordering candidate items
+ */
+export interface SortStrategy {
+  name: Exclude<SortStrategyName, 'auto'>;
+  /** Human readable label for logging */
+  label: string;
+  /** Whether the strategy needs item dates (no name-only fast path) */
+  requiresDates: boolean;
+  /** Whether the strategy can order this item */
+  accepts(item: SortableItem): boolean;
+  /** Compare two accepted items: -1 if a is older than b, 0 if equal, 1 if a is newer */
+  compare(a: SortableItem, b: SortableItem): number;
+  /** Whether the item is a prerelease in the strategy's version scheme (semver for non-version orderings) */
+  isPrerelease(item: SortableItem): boolean;
+  /** Prerelease channel of the item ("rc" for "1.0.0-rc.1", "1.0rc1" or "1.0~rc1"), undefined for releases */
+  getPrereleaseChannel(item: SortableItem): string | undefined;
+}
+
+/**
+ * Options used to build strategies
+ */
+export interface SortStrategyOptions {
+  /** CalVer layout, required for the calver strategy */
+  calverFormat?: string;
+  /** Tag format templates (e.g. "{major}.{minor}-ls{build}"), required for the template strategy */
+  templates?: string[];
+  /** Version scheme replacing semver in the "auto" cascade (default "semver") */
+  versionScheme?: VersionScheme;
+}
+
+/**
+ * Compare two strings using natural order: digit runs compare numerically,
+ * everything else compares by code point ("build-99" < "build-100")
+ * Returns: -1 if a < b, 0 if a === b, 1 if a > b
+ */
+export function compareNatural(a: string, b: string): number {
+  const chunks1 = a.match(/\d+|\D+/g) || [];
+  const chunks2 = b.match(/\d+|\D+/g) || [];
+  const length = Math.min(chunks1.length, chunks2.length);
+
+  for (let i = 0; i < length; i++) {
+    const chunk1 = chunks1[i];
+    const chunk2 = chunks2[i];
+    const isNum1 = /^\d/.test(chunk1);
+    const isNum2 = /^\d/.test(chunk2);
+
+    if (isNum1 && isNum2) {
+      const num1 = BigInt(chunk1);
+      const num2 = BigInt(chunk2);
+      if (num1 !== num2) {
+        return num1 > num2 ? 1 : -1;
+      }
+    } else if (chunk1 !== chunk2) {
+      return chunk1 > chunk2 ? 1 : -1;
+    }
+  }
+
+  if (chunks1.length !== chunks2.length) {
+    return chunks1.length > chunks2.length ? 1 : -1;
+  }
+  return 0;
+}
+
+function compareLexical(a: string, b: string): number {
+  if (a === b) return 0;
+  return a > b ? 1 : -1;
+}
+
+/**
+ * Prerelease checks of a strategy from a function returning the prerelease part of a
+ * version; the channel is the leading alphabetic part of it, lower-cased ("" if none)
+ */
+function prereleaseChecks(
+  getPrerelease: (name: string) => string | undefined
+): Pick<SortStrategy, 'isPrerelease' | 'getPrereleaseChannel'> {
+  return {
+    isPrerelease: (item) => getPrerelease(item.name) !== undefined,
+    getPrereleaseChannel: (item) => {
+      const prerelease = getPrerelease(item.name);
+      return prerelease === undefined ? undefined : (prerelease.match(/^[A-Za-z]+/)?.[0].toLowerCase() ?? '');
+    },
+  };
+}
+
+const getSemverPrerelease = (name: string): string | undefined => parseSemver(name)?.prerelease;
+
+function semverStrategy(): SortStrategy {
+  return {
+    name: 'semver',
+    label: 'semver',
+    requiresDates: false,
+    accepts: (item) => isSemver(item.name),
+    compare: (a, b) => compareSemver(a.name, b.name),
+    ...prereleaseChecks(getSemverPrerelease),
+  };
+}
+
+function numericStrategy(): SortStrategy {
+  return {
+    name: 'numeric',
+    label: 'numeric version',
+    requiresDates: false,
+    accepts: (item) => isNumericVersion(item.name),
+    // A short tag ties with its semver equivalent ("v2" and "v2.0.0"); the semver tag wins
+    compare: (a, b) =>
+      compareNumericVersion(a.name, b.name) || Number(isSemver(a.name)) - Number(isSemver(b.name)),
+    ...prereleaseChecks(getNumericPrerelease),
+  };
+}
+
+function pep440Strategy(): SortStrategy {
+  return {
+    name: 'pep440',
+    label: 'PEP 440',
+    requiresDates: false,
+    accepts: (item) => isPep440(item.name),
+    compare: (a, b) => comparePep440(a.name, b.name),
+    ...prereleaseChecks(getPep440Prerelease),
+  };
+}
+
+function mavenStrategy(): SortStrategy {
+  return {
+    name: 'maven',
+    label: 'Maven version',
+    requiresDates: false,
+    accepts: (item) => isMavenVersion(item.name),
+    compare: (a, b) => compareMavenVersion(a.name, b.name),
+    ...prereleaseChecks(getMavenPrerelease),
+  };
+}
+
+function debianStrategy(): SortStrategy {
+  return {
+    name: 'debian',
+    label: 'Debian version',
+    requiresDates: false,
+    accepts: (item) => isDebianVersion(item.name),
+    compare: (a, b) => compareDebianVersion(a.name, b.name),
+    ...prereleaseChecks(getDebianPrerelease),
+  };
+}
+
+function calverStrategy(calverFormat: string | undefined): SortStrategy {
+  if (!calverFormat) {
+    throw new Error('sort_by "calver" requires calver_format to be set');
+  }
+  const layout: CalverLayout = compileCalverLayout(calverFormat);
+  return {
+    name: 'calver',
+    label: `CalVer (${layout.layout})`,
+    requiresDates: false,
+    accepts: (item) => isCalver(item.name, layout),
+    compare: (a, b) => compareCalver(a.name, b.name, layout),
+    ...prereleaseChecks(getSemverPrerelease),
+  };
+}
+
+/**
+ * Order in which template components are compared: major, minor and patch first,
+ * then the other int placeholders in template order (e.g. build)
+ */
+function getTemplateComponentOrder(templates: TagTemplate[]): string[] {
+  const intNames = templates.flatMap((template) =>
+    template.placeholders.filter((placeholder) => placeholder.type === 'int').map((placeholder) => placeholder.name)
+  );
+  const versionNames = ['major', 'minor', 'patch'].filter((name) => intNames.includes(name));
+  return [...new Set([...versionNames, ...intNames])];
+}
+
+function templateStrategy(templatePatterns: string[] | undefined): SortStrategy {
+  if (!templatePatterns || templatePatterns.length === 0) {
+    throw new Error('sort_by "template" requires a template tag_format (e.g., "{major}.{minor}-ls{build}")');
+  }
+  const templates = templatePatterns.map((pattern) => compileTemplatePattern(pattern));
+  const componentOrder = getTemplateComponentOrder(templates);
+  const getComponents = (name: string): TemplateComponents | undefined => {
+    for (const template of templates) {
+      const components = parseTemplateComponents(name, template);
+      if (components) {
+        return components;
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    name: 'template',
+    label: `template components (${componentOrder.join(', ')})`,
+    requiresDates: false,
+    accepts: (item) => getComponents(item.name) !== undefined,
+    compare: (a, b) => {
+      const componentsA = getComponents(a.name) ?? {};
+      const componentsB = getComponents(b.name) ?? {};
+      for (const name of componentOrder) {
+        const valueA = componentsA[name];
+        const valueB = componentsB[name];
+        if (typeof valueA === 'number' && typeof valueB === 'number' && valueA !== valueB) {
+          return valueA > valueB ? 1 : -1;
+        }
+      }
+      return 0;
+    },
+    ...prereleaseChecks(getSemverPrerelease),
+  };
+}
+
+function dateStrategy(): SortStrategy {
+  return {
+    name: 'date',
+    label: 'date',
+    requiresDates: true,
+    accepts: (item) => !!item.date && !isNaN(new Date(item.date).getTime()),
+    compare: (a, b) => Math.sign(new Date(a.date).getTime() - new Date(b.date).getTime()),
+    ...prereleaseChecks(getSemverPrerelease),
+  };
+}
+
+function naturalStrategy(): SortStrategy {
+  return {
+    name: 'natural',
+    label: 'natural order',
+    requiresDates: false,
+    accepts: () => true,
+    compare: (a, b) => compareNatural(a.name, b.name),
+    ...prereleaseChecks(getSemverPrerelease),
+  };
+}
+
+function lexicalStrategy(): SortStrategy {
+  return {
+    name: 'lexical',
+    label: 'alphabetical order',
+    requiresDates: false,
+    accepts: () => true,
+    compare: (a, b) => compareLexical(a.name, b.name),
+    ...prereleaseChecks(getSemverPrerelease),
+  };
+}
+
+/**
+ * Create a single sort strategy by name
+ *
+ * @throws Error if the name is unknown or "auto", or calver/template is chosen without a layout/template
+ */
+export function createSortStrategy(
+  name: Exclude<SortStrategyName, 'auto'>,
+  options: SortStrategyOptions = {}
+): SortStrategy {
+  switch (name) {
+    case 'semver':
+      return semverStrategy();
+    case 'numeric':
+      return numericStrategy();
+    case 'pep440':
+      return pep440Strategy();
+    case 'maven':
+      return mavenStrategy();
+    case 'debian':
+      return debianStrategy();
+    case 'calver':
+      return calverStrategy(options.calverFormat);
+    case 'template':
+      return templateStrategy(options.templates);
+    case 'date':
+      return dateStrategy();
+    case 'natural':
+      return naturalStrategy();
+    case 'lexical':
+      return lexicalStrategy();
+    default:
+      throw new Error(`Unknown sort strategy: ${String(name)}`);
+  }
+}
+
+/**
+ * Get the strategies to try in order for a sort_by value
+ * "auto" is the cascade: semver (or template components when tag_format has templates,
+ * or CalVer when a layout is set, or the version_scheme comparator), then date, then alphabetical
+ * Any other value is that single strategy, with no fallback
+ */
+export function getSortStrategies(
+  sortBy: SortStrategyName,
+  options: SortStrategyOptions = {}
+): SortStrategy[] {
+  if (sortBy === 'auto') {
+    const versionStrategy =
+      options.templates && options.templates.length > 0
+        ? templateStrategy(options.templates)
+        : options.calverFormat
+        ? calverStrategy(options.calverFormat)
+        : options.versionScheme && options.versionScheme !== 'semver'
+        ? createSortStrategy(options.versionScheme, options)
+        : semverStrategy();
+    return [
+      versionStrategy,
+      dateStrategy(),
+      lexicalStrategy(),
+    ];
+  }
+  return [createSortStrategy(sortBy, options)];
+}
+
+/**
+ * Replace semver with numeric version ordering in the "auto" cascade when numeric versions
+ * that are not strict semver (e.g. "3.22", "3.23", "3.9" or "1.2.3.4") make up the tags,
+ * so such tags are ordered by version instead of falling back to dates or a stray semver tag:
+ * - no strict semver item: numeric ordering if any item is a numeric version
+ * - otherwise: numeric ordering only if non-semver versions with at least two components
+ *   outnumber the semver items ("3.22", "3.23", "3.9" next to "1.0.0" are numeric)
+ * Single-component tags do not count, so floating tags ("v1", "v2") and stray numbers
+ * ("20240101") next to semver releases keep semver ordering
+ */
+export function preferNumericOrdering(
+  sortBy: SortStrategyName,
+  strategies: SortStrategy[],
+  items: SortableItem[]
+): SortStrategy[] {
+  if (sortBy !== 'auto' || strategies[0]?.name !== 'semver') {
+    return strategies;
+  }
+  const semverCount = items.filter((item) => isSemver(item.name)).length;
+  const isMultiComponentNumeric = (name: string): boolean =>
+    !isSemver(name) && (parseNumericVersion(name)?.numbers.length ?? 0) > 1;
+  const numeric =
+    semverCount === 0
+      ? items.some((item) => isNumericVersion(item.name))
+      : items.filter((item) => isMultiComponentNumeric(item.name)).length > semverCount;
+  return numeric ? [numericStrategy(), ...strategies.slice(1)] : strategies;
+}
+
+/**
+ * Sort items with a strategy (newest first)
+ * Items the strategy considers equal are ordered by name so the result does
+ * not depend on the order the platform API returned them in
+ */
+export function sortItems<T extends SortableItem>(items: T[], strategy: SortStrategy): T[] {
+  return [...items].sort((a, b) => {
+    const comparison = strategy.compare(b, a); // Reverse for descending order
+    if (comparison !== 0) {
+      return comparison;
+    }
+    return compareLexical(a.name, b.name);
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * HTML helpers for job summary tables (core.summary cells are HTML)
+ */
+
+import * as core from '@actions/core';
+
+/** Row of a job summary table (not exported by @actions/core) */
+export type SummaryTableRow = Parameters<typeof core.summary.addTable>[0][number];
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline code cell content
+ */
+export function code(value: string): string {
+  return `<code>${escapeHtml(value)}</code>`;
+}
+
+/**
+ * Link around already escaped HTML, or the HTML itself when there is no URL
+ */
+export function link(html: string, url?: string): string {
+  return url ? `<a href="${escapeHtml(url)}">${html}</a>` : html;
+}
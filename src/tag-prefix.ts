@@ -0,0 +1,50 @@
+/**
+ * Component prefix utilities for monorepo tags
+ * Examples: "api@1.4.2", "web/v3.0.0", "charts/redis-v2.1.0"
+ */
+
+/**
+ * Build the list of accepted tag prefixes from the tag_prefix and component inputs
+ * - tag_prefix is used literally: "charts/redis-v" → ["charts/redis-v"]
+ * - component expands to the unambiguous separators: "api" → ["api@", "api/"]
+ *   ("api-" would also match sibling components such as "api-gateway@9.0.0"; use tag_prefix for it)
+ *
+ * @returns Accepted prefixes, or undefined if neither input is set
+ * @throws Error if both inputs are set
+ */
+export function getTagPrefixes(tagPrefix?: string, component?: string): string[] | undefined {
+  if (tagPrefix && component) {
+    throw new Error('Use either tag_prefix or component, not both');
+  }
+  if (tagPrefix) {
+    return [tagPrefix];
+  }
+  if (component) {
+    return [`${component}@`, `${component}/`];
+  }
+  return undefined;
+}
+
+/**
+ * Remove the first matching prefix from a tag name
+ *
+ * @returns The remainder after the prefix, or undefined if no prefix matches
+ *          (or nothing follows it)
+ */
+export function stripTagPrefix(tagName: string, prefixes: string[]): string | undefined {
+  for (const prefix of prefixes) {
+    if (tagName.startsWith(prefix) && tagName.length > prefix.length) {
+      return tagName.slice(prefix.length);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the bare version of a tag: component prefix and leading "v" removed
+ * Examples: "api@1.4.2" → "1.4.2", "charts/redis-v2.1.0" → "2.1.0", "v1.2.3" → "1.2.3"
+ */
+export function getBareVersion(tagName: string, prefixes?: string[]): string {
+  const versionName = (prefixes && stripTagPrefix(tagName, prefixes)) || tagName;
+  return versionName.replace(/^v(?=\d)/i, '');
+}
@@ -1,7 +1,61 @@
 import * as core from '@actions/core';
-import { PlatformAPI, Platform } from './types';
-import { isSemver, sortTagsBySemver } from './semver';
-import { filterTagsByFormat } from './format-matcher';
+import { PlatformAPI, Platform, ReleaseSummary } from './types';
+import { parseNumericVersion } from './numeric-version';
+import {
+  TagFormatMode,
+  TagFormatMatchMode,
+  filterTagsByFormat,
+  filterTagsByFormats,
+  matchTagFormat,
+  isTemplatePattern,
+  splitNegatedPatterns,
+} from './format-matcher';
+import { filterTagsByConstraint } from './version-range';
+import {
+  SortStrategy,
+  SortStrategyName,
+  SortStrategyOptions,
+  SortableItem,
+  VersionScheme,
+  createSortStrategy,
+  getSortStrategies,
+  preferNumericOrdering,
+  sortItems,
+} from './sort-strategies';
+import { TagSelector } from './tag-selector';
+import { stripTagPrefix } from './tag-prefix';
+import { Logger } from './logger';
+
+/**
+ * Additional options for "latest" resolution
+ */
+export interface ResolveOptions {
+  /** npm-style version range the resolved item must satisfy (e.g. "^1.4") */
+  versionConstraint?: string;
+  /**
+   * Prerelease policy: "include" (default), "exclude", or a channel name
+   * (e.g. "rc") to consider stable items plus prereleases of that channel only
+   */
+  prereleasePolicy?: string;
+  /** CalVer layout (e.g. "YYYY.0M.0D"); when set, items are ordered by CalVer instead of semver */
+  calverFormat?: string;
+  /** Version scheme replacing semver ordering in the "auto" cascade (default "semver") */
+  versionScheme?: VersionScheme;
+  /** Sort strategy (default "auto": semver or CalVer, then date, then alphabetical) */
+  sortBy?: SortStrategyName;
+  /** Component tag prefixes (e.g. ["api@"]); only prefixed tags are considered, ordered by the version after the prefix */
+  tagPrefixes?: string[];
+  /** How multiple format patterns are combined (default "fallback") */
+  tagFormatMode?: TagFormatMode;
+  /** How each format pattern is matched: "auto" (default, with prefix heuristic), "strict" or "prefix" */
+  tagFormatMatch?: TagFormatMatchMode;
+  /** Logger for verbose per-tag match details */
+  logger?: Logger;
+  /** Format patterns of items to drop after format filtering (e.g. ["*-nightly", "legacy-*"]) */
+  tagExclude?: string[];
+  /** Called with the ordered candidate list each time one is built (e.g. for the tags_json output) */
+  onCandidates?: (resolved: ResolvedCandidates) => void;
+}
 
 /**
  * Filter tags with fallback pattern support
@@ -10,19 +64,23 @@ import { filterTagsByFormat } from './format-matcher';
  * @param tagNames - Array of tag names to filter
  * @param patterns - Array of format patterns to try in order
  * @param context - Context string for logging (e.g., "GitHub optimized path")
+ * @param matchMode - How each pattern is matched (see matchTagFormatDetails)
+ * @param logger - Logger for verbose per-tag match details
  * @returns Array of tag names that match the first successful pattern
  * @throws Error if no patterns match any tags
  */
 async function filterTagsWithFallback(
   tagNames: string[],
   patterns: string[],
-  context: string
+  context: string,
+  matchMode: TagFormatMatchMode = 'auto',
+  logger?: Logger
 ): Promise<string[]> {
   const attemptedPatterns: string[] = [];
 
   for (let i = 0; i < patterns.length; i++) {
     const pattern = patterns[i];
-    const filtered = filterTagsByFormat(tagNames, pattern);
+    const filtered = filterTagsByFormat(tagNames, pattern, matchMode, logger);
     
     core.info(
       `Format filtering (${context}): Pattern "${pattern}" matches ${filtered.length} of ${tagNames.length} tags`
@@ -51,18 +109,394 @@ async function filterTagsWithFallback(
 }
 
 /**
- * Resolve "latest" item name (tag or release)
- * Strategy: Try semver first (using fast name-only fetch when available), then fallback to date
+ * Filter tags by combining all patterns (union or intersection)
+ *
+ * @param tagNames - Array of tag names to filter
+ * @param patterns - Array of format patterns
+ * @param mode - "union" (any pattern) or "all" (every pattern)
+ * @param context - Context string for logging (e.g., "optimized path")
+ * @param matchMode - How each pattern is matched (see matchTagFormatDetails)
+ * @param logger - Logger for verbose per-tag match details
+ * @returns Array of tag names kept by the mode
+ * @throws Error if no tags are kept
+ */
+function filterTagsWithMode(
+  tagNames: string[],
+  patterns: string[],
+  mode: Exclude<TagFormatMode, 'fallback'>,
+  context: string,
+  matchMode: TagFormatMatchMode = 'auto',
+  logger?: Logger
+): string[] {
+  for (const pattern of patterns) {
+    core.info(
+      `Format filtering (${context}): Pattern "${pattern}" matches ${filterTagsByFormat(tagNames, pattern, matchMode, logger).length} of ${tagNames.length} tags`
+    );
+  }
+
+  const filtered = filterTagsByFormats(tagNames, patterns, mode, matchMode);
+  const modeLabel = mode === 'all' ? 'all' : 'any';
+  core.info(`Format filtering (${context}): ${filtered.length} of ${tagNames.length} tags match ${modeLabel} pattern(s)`);
+
+  if (filtered.length === 0) {
+    const patternsList = patterns.map((p) => `"${p}"`).join(', ');
+    throw new Error(`No tags found matching ${modeLabel} format pattern${mode === 'all' ? 's' : ''}: [${patternsList}]`);
+  }
+
+  return filtered;
+}
+
+/**
+ * Keep tag names matching every "!pattern" negation (fallback mode applies them
+ * to the tags selected by the first matching pattern)
+ *
+ * @throws Error if no tags are kept
+ */
+function applyNegatedPatterns(
+  tagNames: string[],
+  negations: string[],
+  context: string,
+  matchMode: TagFormatMatchMode = 'auto'
+): string[] {
+  const filtered = filterTagsByFormats(tagNames, negations, 'all', matchMode);
+  const patternsList = negations.map((p) => `"${p}"`).join(', ');
+  core.info(`Format filtering (${context}): ${filtered.length} of ${tagNames.length} tags match negation(s) ${patternsList}`);
+
+  if (filtered.length === 0) {
+    throw new Error(`No tags found matching negated format pattern(s): [${patternsList}]`);
+  }
+
+  return filtered;
+}
+
+/**
+ * Drop tag names matching any exclusion pattern
+ *
+ * @param tagNames - Array of tag names to filter
+ * @param patterns - Exclusion patterns (same syntax as tag_format)
+ * @param itemLabel - "tag" or "release" for logging
+ * @param context - Context string for logging (e.g., "optimized path")
+ * @param matchMode - How each pattern is matched (see matchTagFormatDetails)
+ * @returns Array of tag names matching none of the patterns
+ * @throws Error if every tag is excluded
+ */
+function applyTagExclusion(
+  tagNames: string[],
+  patterns: string[],
+  itemLabel: string,
+  context: string,
+  matchMode: TagFormatMatchMode = 'auto'
+): string[] {
+  const kept = tagNames.filter((tagName) => !patterns.some((pattern) => matchTagFormat(tagName, pattern, matchMode)));
+
+  const patternCounts = patterns
+    .map((pattern) => `"${pattern}": ${filterTagsByFormat(tagNames, pattern, matchMode).length}`)
+    .join(', ');
+  core.info(
+    `Tag exclusion (${context}): excluded ${tagNames.length - kept.length} of ${tagNames.length} ${itemLabel}s (${patternCounts})`
+  );
+
+  if (kept.length === 0) {
+    const patternsList = patterns.map((p) => `"${p}"`).join(', ');
+    throw new Error(`No ${itemLabel}s left after excluding tag_exclude patterns: [${patternsList}]`);
+  }
+
+  return kept;
+}
+
+/**
+ * Apply a version constraint to format-filtered tag names
+ *
+ * @param tagNames - Array of tag names to filter
+ * @param constraint - npm-style version range
+ * @param context - Context string for logging (e.g., "optimized path")
+ * @returns Array of tag names satisfying the constraint
+ * @throws Error if no tags satisfy the constraint
+ */
+function applyVersionConstraint(tagNames: string[], constraint: string, context: string): string[] {
+  const filtered = filterTagsByConstraint(tagNames, constraint);
+
+  core.info(
+    `Version constraint (${context}): "${constraint}" satisfied by ${filtered.length} of ${tagNames.length} tags`
+  );
+
+  if (filtered.length === 0) {
+    throw new Error(`No tags found matching version constraint "${constraint}"`);
+  }
+
+  return filtered;
+}
+
+/**
+ * Apply a prerelease policy to candidate items
+ * An item is a prerelease if the version scheme of the ordering strategy says so
+ * (e.g. "1.0.0-rc.1", "1.0rc1", "1.0~rc1", "1.0-SNAPSHOT") or the platform flagged
+ * the release as a prerelease
+ *
+ * @param items - Candidate items (platform flag is optional)
+ * @param policy - "include", "exclude", or a channel name such as "rc"
+ * @param context - Context string for logging (e.g., "optimized path")
+ * @param strategy - Strategy ordering the items, deciding which versions are prereleases
+ * @returns Items allowed by the policy
+ * @throws Error if no items are allowed by the policy
+ */
+function applyPrereleasePolicy<T extends SortableItem & { is_prerelease?: boolean }>(
+  items: T[],
+  policy: string,
+  context: string,
+  strategy: SortStrategy
+): T[] {
+  if (policy === 'include') {
+    return items;
+  }
+
+  const filtered = items.filter((item) => {
+    const isPrerelease = item.is_prerelease === true || strategy.isPrerelease(item);
+    if (!isPrerelease) {
+      return true;
+    }
+    return policy !== 'exclude' && strategy.getPrereleaseChannel(item) === policy;
+  });
+
+  const policyLabel = policy === 'exclude' ? 'excluding prereleases' : `channel "${policy}"`;
+  core.info(
+    `Prerelease policy (${context}): ${policyLabel} keeps ${filtered.length} of ${items.length} items`
+  );
+
+  if (filtered.length === 0) {
+    throw new Error(`No tags found matching prerelease policy "${policy}"`);
+  }
+
+  return filtered;
+}
+
+/**
+ * Order items with the first strategy in the cascade that accepts any of them
+ *
+ * @param items - Filtered candidate items
+ * @param strategies - Strategies to try in order (see getSortStrategies)
+ * @param itemLabel - "tag" or "release" for logging
+ * @param note - Extra note appended to the log line
+ * @returns Items sorted newest first with the strategy used, or undefined if no strategy applies
+ */
+function orderWithStrategies<T extends SortableItem>(
+  items: T[],
+  strategies: SortStrategy[],
+  itemLabel: string,
+  note: string
+): { items: T[]; strategy: SortStrategy } | undefined {
+  for (let i = 0; i < strategies.length; i++) {
+    const strategy = strategies[i];
+    const accepted = items.filter((item) => strategy.accepts(item));
+
+    if (accepted.length > 0) {
+      if (strategy.name === 'lexical' && i > 0) {
+        core.warning('No date information available, using alphabetical order');
+      } else {
+        core.info(`Found ${accepted.length} ${itemLabel}s orderable by ${strategy.label}, using ${strategy.label} comparison${note}`);
+      }
+      return { items: sortItems(accepted, strategy), strategy };
+    }
+
+    const next = strategies[i + 1];
+    core.info(
+      next
+        ? `No ${itemLabel}s orderable by ${strategy.label}, falling back to ${next.label}`
+        : `No ${itemLabel}s orderable by ${strategy.label}`
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Candidate item while filtering and ordering
+ * name is the version part used for matching and ordering (component prefix removed);
+ * fullName is the original tag or release name
+ */
+interface WorkingItem extends SortableItem {
+  fullName: string;
+  is_prerelease?: boolean;
+}
+
+/**
+ * Scope items to the configured component prefixes and apply format filtering,
+ * tag exclusion and version constraint
+ *
+ * @param items - All items listed by the platform
+ * @param formatPatterns - Format patterns (fallback order), if any
+ * @param options - Resolve options
+ * @param itemLabel - "tag" or "release" for logging
+ * @param context - Context string for logging (e.g., "optimized path")
+ * @returns Filtered working items
+ * @throws Error if a filter leaves no items
+ */
+async function filterCandidateItems(
+  items: ReleaseSummary[],
+  formatPatterns: string[] | undefined,
+  options: ResolveOptions,
+  itemLabel: string,
+  context: string
+): Promise<WorkingItem[]> {
+  let filteredItems: WorkingItem[] = items.map((item) => ({ ...item, fullName: item.name }));
+
+  // Scope to one component and match/order on the version after the prefix
+  if (options.tagPrefixes) {
+    const tagPrefixes = options.tagPrefixes;
+    filteredItems = filteredItems.flatMap((item) => {
+      const versionName = stripTagPrefix(item.name, tagPrefixes);
+      return versionName === undefined ? [] : [{ ...item, name: versionName }];
+    });
+
+    const prefixList = tagPrefixes.map((p) => `"${p}"`).join(', ');
+    core.info(`Tag prefix (${context}): ${prefixList} matches ${filteredItems.length} of ${items.length} ${itemLabel}s`);
+
+    if (filteredItems.length === 0) {
+      throw new Error(`No ${itemLabel}s found matching tag prefix ${prefixList}`);
+    }
+  }
+
+  // Apply format filtering if provided (fallback, union or all patterns)
+  if (formatPatterns) {
+    const formatMode = options.tagFormatMode || 'fallback';
+    const itemNames = filteredItems.map((item) => item.name);
+    const matchMode = options.tagFormatMatch || 'auto';
+    let filteredNames: string[];
+    if (formatMode === 'fallback') {
+      // Negations filter the tags selected by the first matching pattern
+      const { patterns, negations } = splitNegatedPatterns(formatPatterns);
+      filteredNames =
+        patterns.length > 0
+          ? await filterTagsWithFallback(itemNames, patterns, context, matchMode, options.logger)
+          : itemNames;
+      if (negations.length > 0) {
+        filteredNames = applyNegatedPatterns(filteredNames, negations, context, matchMode);
+      }
+    } else {
+      filteredNames = filterTagsWithMode(itemNames, formatPatterns, formatMode, context, matchMode, options.logger);
+    }
+    filteredItems = filteredItems.filter((item) => filteredNames.includes(item.name));
+  }
+
+  if (options.tagExclude && options.tagExclude.length > 0) {
+    const keptNames = applyTagExclusion(
+      filteredItems.map((item) => item.name),
+      options.tagExclude,
+      itemLabel,
+      context,
+      options.tagFormatMatch
+    );
+    filteredItems = filteredItems.filter((item) => keptNames.includes(item.name));
+  }
+
+  if (options.versionConstraint) {
+    const constrainedNames = applyVersionConstraint(
+      filteredItems.map((item) => item.name),
+      options.versionConstraint,
+      context
+    );
+    filteredItems = filteredItems.filter((item) => constrainedNames.includes(item.name));
+  }
+
+  return filteredItems;
+}
+
+/**
+ * Build sort strategy options: CalVer layout, version scheme and the template patterns of tag_format
+ */
+function getStrategyOptions(tagFormat: string | string[] | undefined, options: ResolveOptions): SortStrategyOptions {
+  const formatPatterns = Array.isArray(tagFormat) ? tagFormat : tagFormat ? [tagFormat] : [];
+  return {
+    calverFormat: options.calverFormat,
+    versionScheme: options.versionScheme,
+    templates: formatPatterns.filter((pattern) => !pattern.startsWith('!') && isTemplatePattern(pattern)),
+  };
+}
+
+/**
+ * Strategy deciding whether a version is a prerelease, as for the prerelease policy:
+ * the version strategy of the sort_by cascade (numeric for a numeric version that is not semver)
+ *
+ * @param version - Bare version (component prefix and leading "v" removed)
+ */
+export function getPrereleaseStrategy(
+  version: string,
+  tagFormat?: string | string[],
+  options: ResolveOptions = {}
+): SortStrategy {
+  const sortBy = options.sortBy || 'auto';
+  const strategies = getSortStrategies(sortBy, getStrategyOptions(tagFormat, options));
+  return preferNumericOrdering(sortBy, strategies, [{ name: version, date: '' }])[0];
+}
+
+/**
+ * Convert ordered working items to candidates
+ */
+function toCandidates(items: WorkingItem[]): Candidate[] {
+  return items.map((item) => ({
+    name: item.fullName,
+    date: item.date,
+    version: item.name.replace(/^v(?=\d)/i, ''),
+  }));
+}
+
+/**
+ * Candidate item: full name, date (empty if not fetched) and bare version
+ * (component prefix and leading "v" removed)
+ */
+export interface Candidate {
+  name: string;
+  date: string;
+  version: string;
+}
+
+/**
+ * Ordered candidate items (newest first) and the sort strategy that was used
+ */
+export interface ResolvedCandidates {
+  candidates: Candidate[];
+  ordering: Exclude<SortStrategyName, 'auto'>;
+}
+
+/**
+ * Build the ordered list of candidate items (tags or releases), newest first
+ * Strategy (sort_by "auto"): Try semver first (using fast name-only fetch when available),
+ * then fallback to date, then alphabetical order
+ * Numeric versions that are not strict semver ("3.22", "1.2.3.4") switch semver to numeric version ordering
+ * If tagFormat contains templates (e.g. "{major}.{minor}-ls{build}"), their typed components
+ * replace semver ordering in the cascade; otherwise options.calverFormat selects CalVer ordering
+ * If options.sortBy names a strategy, only that strategy is used
  * If tagFormat is provided, filter items by format before sorting
- * If tagFormat is an array, try each pattern in order as fallbacks
+ * If tagFormat is an array, try each pattern in order as fallbacks, or combine them
+ * with options.tagFormatMode ("union": any pattern, "all": every pattern)
+ * If options.tagExclude is provided, items matching any of its patterns are dropped
+ * If options.versionConstraint is provided, only items satisfying the range are considered
+ * If options.prereleasePolicy is provided, prereleases are excluded or limited to one channel
+ * If options.onCandidates is provided, it receives the resulting list
  */
-export async function resolveLatestTag(
+export async function resolveCandidates(
   platformAPI: PlatformAPI,
   tagFormat?: string | string[],
-  itemType: 'tags' | 'release' = 'tags'
-): Promise<string> {
+  itemType: 'tags' | 'release' = 'tags',
+  options: ResolveOptions = {}
+): Promise<ResolvedCandidates> {
+  const resolved = await buildCandidates(platformAPI, tagFormat, itemType, options);
+  options.onCandidates?.(resolved);
+  return resolved;
+}
+
+/**
+ * Filter and order the items for resolveCandidates
+ */
+async function buildCandidates(
+  platformAPI: PlatformAPI,
+  tagFormat: string | string[] | undefined,
+  itemType: 'tags' | 'release',
+  options: ResolveOptions
+): Promise<ResolvedCandidates> {
   const itemLabel = itemType === 'release' ? 'release' : 'tag';
-  core.info(`Resolving latest ${itemLabel}...`);
+  const sortBy = options.sortBy || 'auto';
+  const strategies = getSortStrategies(sortBy, getStrategyOptions(tagFormat, options));
 
   // Normalize tagFormat to array for consistent handling
   const formatPatterns: string[] | undefined = Array.isArray(tagFormat)
@@ -76,13 +510,19 @@ export async function resolveLatestTag(
     if (formatPatterns.length === 1) {
       core.info(`Filtering tags by format: ${formatPatterns[0]}`);
     } else {
-      core.info(`Filtering tags by format patterns (fallback order): ${formatPatterns.join(', ')}`);
+      const formatMode = options.tagFormatMode || 'fallback';
+      const modeLabel = formatMode === 'fallback' ? 'fallback order' : `${formatMode} mode`;
+      core.info(`Filtering tags by format patterns (${modeLabel}): ${formatPatterns.join(', ')}`);
     }
   }
 
+  if (sortBy !== 'auto') {
+    core.info(`Sorting ${itemLabel}s by ${strategies[0].label}`);
+  }
+
   // Optimization: For tags, first try to get just item names (fast, no dates)
-  // and check if we can resolve using semver without fetching dates
-  if (itemType === 'tags') {
+  // and check if we can resolve using the first strategy without fetching dates
+  if (itemType === 'tags' && !strategies[0].requiresDates) {
     try {
       const itemNames = await platformAPI.getAllTagNames();
 
@@ -90,38 +530,53 @@ export async function resolveLatestTag(
         throw new Error(`No ${itemLabel}s found in repository`);
       }
 
-      // Apply format filtering if provided (with fallback support)
-      let filteredItemNames = itemNames;
-      if (formatPatterns) {
-        filteredItemNames = await filterTagsWithFallback(itemNames, formatPatterns, 'optimized path');
-      }
+      const matchedItems = await filterCandidateItems(
+        itemNames.map((name) => ({ name, date: '' })),
+        formatPatterns,
+        options,
+        itemLabel,
+        'optimized path'
+      );
+      const orderStrategies = preferNumericOrdering(sortBy, strategies, matchedItems);
+      const filteredItems = applyPrereleasePolicy(
+        matchedItems,
+        options.prereleasePolicy || 'include',
+        'optimized path',
+        orderStrategies[0]
+      );
 
-      // Filter semver items from the (potentially format-filtered) items
-      const semverItems = filteredItemNames.filter((itemName: string) => isSemver(itemName));
+      // Order the (potentially format-filtered) items with the first strategy only;
+      // fallbacks such as date ordering need the full fetch below
+      const ordered = orderWithStrategies(
+        filteredItems,
+        orderStrategies.slice(0, 1),
+        itemLabel,
+        ' (optimized: no date fetching needed)'
+      );
 
-      if (semverItems.length > 0) {
-        core.info(`Found ${semverItems.length} semver ${itemLabel}s, using semver comparison (optimized: no date fetching needed)`);
-        // Sort by semver (highest first)
-        const sorted = sortTagsBySemver(semverItems);
-        const latest = sorted[0];
-        core.info(`Latest semver ${itemLabel}: ${latest}`);
-        return latest;
+      if (ordered) {
+        return { candidates: toCandidates(ordered.items), ordering: ordered.strategy.name };
       }
 
-      // If no semver items, fall through to date-based sorting below
-      core.info(`No semver ${itemLabel}s found, falling back to date-based sorting`);
+      if (strategies.length === 1) {
+        throw new Error(`No ${itemLabel}s found matching sort strategy "${sortBy}"`);
+      }
+      // Otherwise fall through to the full fetch and the remaining strategies below
     } catch (error) {
       // If optimized path fails, fall through to full item fetch
-      if (error instanceof Error && error.message.includes('No tags found matching format pattern')) {
-        // Re-throw format matching errors (after all fallbacks exhausted)
+      if (
+        error instanceof Error &&
+        (error.message.includes('s found matching') || error.message.includes('left after excluding'))
+      ) {
+        // Re-throw prefix, format matching, exclusion, version constraint and sort strategy errors (after all fallbacks exhausted)
         throw error;
       }
       core.warning(`Optimized ${itemLabel} name fetch failed, using full ${itemLabel} fetch: ${error instanceof Error ? error.message : 'unknown error'}`);
     }
   }
 
-  // For releases or if semver failed, get items with dates
-  const allItems = itemType === 'tags'
+  // For releases or if the first strategy failed, get items with dates
+  const allItems: ReleaseSummary[] = itemType === 'tags'
     ? await platformAPI.getAllTags()
     : await platformAPI.getAllReleases();
 
@@ -129,47 +584,159 @@ export async function resolveLatestTag(
     throw new Error(`No ${itemLabel}s found in repository`);
   }
 
-  // Apply format filtering if provided (with fallback support)
-  let filteredItems = allItems;
-  if (formatPatterns) {
-    const allItemNames = allItems.map((item: { name: string; date: string }) => item.name);
-    const filteredItemNames = await filterTagsWithFallback(allItemNames, formatPatterns, `full ${itemLabel} fetch path`);
-    
-    // Filter items to only those matching the format
-    filteredItems = allItems.filter((item: { name: string; date: string }) => filteredItemNames.includes(item.name));
+  const matchedItems = await filterCandidateItems(
+    allItems,
+    formatPatterns,
+    options,
+    itemLabel,
+    `full ${itemLabel} fetch path`
+  );
+  const orderStrategies = preferNumericOrdering(sortBy, strategies, matchedItems);
+  const filteredItems = applyPrereleasePolicy(
+    matchedItems,
+    options.prereleasePolicy || 'include',
+    `full ${itemLabel} fetch path`,
+    orderStrategies[0]
+  );
+
+  const ordered = orderWithStrategies(filteredItems, orderStrategies, itemLabel, '');
+
+  if (!ordered) {
+    throw new Error(`No ${itemLabel}s found matching sort strategy "${sortBy}"`);
   }
 
-  // Filter semver items (in case we didn't check earlier)
-  const semverItems = filteredItems.filter((item: { name: string; date: string }) => isSemver(item.name));
+  return { candidates: toCandidates(ordered.items), ordering: ordered.strategy.name };
+}
 
-  if (semverItems.length > 0) {
-    core.info(`Found ${semverItems.length} semver ${itemLabel}s, using semver comparison`);
-    // Sort by semver (highest first)
-    const sorted = sortTagsBySemver(semverItems.map((t: { name: string; date: string }) => t.name));
-    const latest = sorted[0];
-    core.info(`Latest semver ${itemLabel}: ${latest}`);
-    return latest;
+/**
+ * Resolve "latest" item name (tag or release)
+ * Uses the first entry of the ordered candidate list (see resolveCandidates)
+ */
+export async function resolveLatestTag(
+  platformAPI: PlatformAPI,
+  tagFormat?: string | string[],
+  itemType: 'tags' | 'release' = 'tags',
+  options: ResolveOptions = {}
+): Promise<string> {
+  const itemLabel = itemType === 'release' ? 'release' : 'tag';
+  core.info(`Resolving latest ${itemLabel}...`);
+
+  const { candidates, ordering } = await resolveCandidates(platformAPI, tagFormat, itemType, options);
+  const latest = candidates[0].name;
+  core.info(`Latest ${itemLabel} by ${ordering}: ${latest}`);
+
+  return latest;
+}
+
+/**
+ * Resolve the item immediately preceding a reference item (tag or release)
+ * Uses the same filtering and ordering as resolveLatestTag
+ * If the reference is not among the candidates (e.g. filtered out by tag_format),
+ * name-based orderings (semver, CalVer, natural, lexical) place it by comparison;
+ * date ordering requires it to be present
+ *
+ * @param platformAPI - Platform API to list items from
+ * @param referenceName - Item to find the predecessor of, or "latest"
+ * @returns Name of the preceding item, or undefined if the reference is the oldest candidate
+ * @throws Error if the reference cannot be placed in the candidate ordering
+ */
+export async function resolvePreviousTag(
+  platformAPI: PlatformAPI,
+  referenceName: string,
+  tagFormat?: string | string[],
+  itemType: 'tags' | 'release' = 'tags',
+  options: ResolveOptions = {}
+): Promise<string | undefined> {
+  const itemLabel = itemType === 'release' ? 'release' : 'tag';
+  core.info(`Resolving ${itemLabel} preceding ${referenceName}...`);
+
+  const { candidates, ordering } = await resolveCandidates(platformAPI, tagFormat, itemType, options);
+  const names = candidates.map((candidate) => candidate.name);
+  const strategy = createSortStrategy(ordering, getStrategyOptions(tagFormat, options));
+  // Compare names as the strategies sort them: component prefix removed, leading "v" kept
+  // (templates such as "v{major}.{minor}.{patch}" include it)
+  const withoutPrefix = (name: string): string =>
+    options.tagPrefixes ? stripTagPrefix(name, options.tagPrefixes) ?? name : name;
+  const reference = { name: withoutPrefix(referenceName), date: '' };
+
+  let previous: string | undefined;
+  if (referenceName.toLowerCase() === 'latest') {
+    previous = names[1];
+  } else if (names.includes(referenceName)) {
+    previous = names[names.indexOf(referenceName) + 1];
+  } else if (!strategy.requiresDates && strategy.accepts(reference)) {
+    previous = candidates.find(
+      (candidate) => strategy.compare({ name: withoutPrefix(candidate.name), date: candidate.date }, reference) < 0
+    )?.name;
+  } else {
+    throw new Error(
+      `Cannot resolve ${itemLabel} preceding "${referenceName}": it is not among the candidate ${itemLabel}s`
+    );
+  }
+
+  if (previous) {
+    core.info(`Previous ${itemLabel} before ${referenceName}: ${previous}`);
+  } else {
+    core.info(`No ${itemLabel} precedes ${referenceName}`);
   }
 
-  // Fallback to date-based sorting
-  core.info(`No semver ${itemLabel}s found, falling back to date-based sorting`);
-  const itemsWithDates = filteredItems.filter((item: { name: string; date: string }) => item.date);
+  return previous;
+}
+
+/**
+ * Resolve a tag selector (e.g. "latest~2", "latest@1.4", "oldest") to an item name
+ * Evaluated over the same filtered and ordered candidate list as resolveLatestTag
+ *
+ * @param platformAPI - Platform API to list items from
+ * @param selector - Parsed selector (see parseTagSelector)
+ * @param selectorLabel - Original selector text for logging and errors
+ * @returns Name of the selected item
+ * @throws Error if no candidate matches the selector scope or the offset is out of range
+ */
+export async function resolveSelectedTag(
+  platformAPI: PlatformAPI,
+  selector: TagSelector,
+  selectorLabel: string,
+  tagFormat?: string | string[],
+  itemType: 'tags' | 'release' = 'tags',
+  options: ResolveOptions = {}
+): Promise<string> {
+  const itemLabel = itemType === 'release' ? 'release' : 'tag';
+  core.info(`Resolving ${itemLabel} for selector "${selectorLabel}"...`);
+
+  const { candidates } = await resolveCandidates(platformAPI, tagFormat, itemType, options);
+  let scoped = candidates;
 
-  if (itemsWithDates.length > 0) {
-    // Sort by date (most recent first)
-    const sorted = itemsWithDates.sort((a: { name: string; date: string }, b: { name: string; date: string }) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return dateB - dateA; // Descending order
+  // Restrict to a major (and optionally minor) version line, using the leading numeric
+  // components so numeric, CalVer and template ordered versions (e.g. "3.23") are scoped too
+  if (selector.major !== undefined) {
+    scoped = candidates.filter((candidate) => {
+      const numbers = parseNumericVersion(candidate.version)?.numbers;
+      return (
+        numbers !== undefined &&
+        numbers[0] === selector.major &&
+        (selector.minor === undefined || numbers[1] === selector.minor)
+      );
     });
-    const latest = sorted[0].name;
-    core.info(`Latest ${itemLabel} by date: ${latest}`);
-    return latest;
+
+    const scopeLabel =
+      selector.minor === undefined ? `${selector.major}.x` : `${selector.major}.${selector.minor}.x`;
+    core.info(`Selector scope ${scopeLabel} matches ${scoped.length} of ${candidates.length} ${itemLabel}s`);
+
+    if (scoped.length === 0) {
+      throw new Error(`No ${itemLabel}s found in version line ${scopeLabel} for selector "${selectorLabel}"`);
+    }
   }
 
-  // If no dates available, return the last item alphabetically (fallback)
-  core.warning('No date information available, using alphabetical order');
-  const sorted = filteredItems.map((t: { name: string; date: string }) => t.name).sort();
-  return sorted[sorted.length - 1];
-}
+  const names = scoped.map((candidate) => candidate.name);
+  const ordered = selector.from === 'latest' ? names : [...names].reverse();
+  if (selector.offset >= ordered.length) {
+    throw new Error(
+      `Selector "${selectorLabel}" is out of range: only ${ordered.length} candidate ${itemLabel}(s) available`
+    );
+  }
 
+  const selected = ordered[selector.offset];
+  core.info(`Selector "${selectorLabel}" resolved to ${itemLabel}: ${selected}`);
+  return selected;
+}
@@ -0,0 +1,65 @@
+/**
+ * Tag selector parsing for tag_name input
+ * Supports relative and scoped selectors evaluated over the ordered candidate list
+ */
+
+/**
+ * Parsed tag selector
+ */
+export interface TagSelector {
+  /** Which end of the candidate list to count from */
+  from: 'latest' | 'oldest';
+  /** Number of candidates to skip (latest~2 → 2, i.e. third newest) */
+  offset: number;
+  /** Restrict candidates to one major line (latest@1) */
+  major?: number;
+  /** Restrict candidates to one minor line (latest@1.4) */
+  minor?: number;
+}
+
+/**
+ * Parse a tag_name value as a selector
+ * Supports:
+ * - "latest", "oldest", "earliest" (alias of oldest)
+ * - Offsets: "latest~2" → third newest, "oldest~1" → second oldest
+ * - Scopes: "latest@1" → newest 1.x.y, "latest@1.4" → newest 1.4.z
+ * - Both: "latest@1~1" → second newest 1.x.y
+ *
+ * @param tagName - The tag_name input
+ * @returns Parsed selector, or undefined if tagName is a plain tag name
+ */
+export function parseTagSelector(tagName: string): TagSelector | undefined {
+  const selectorMatch = tagName
+    .trim()
+    .match(/^(latest|oldest|earliest)(?:@v?(\d+)(?:\.(\d+))?)?(?:~(\d+))?$/i);
+
+  if (!selectorMatch) {
+    return undefined;
+  }
+
+  const selector: TagSelector = {
+    from: selectorMatch[1].toLowerCase() === 'latest' ? 'latest' : 'oldest',
+    offset: selectorMatch[4] ? parseInt(selectorMatch[4], 10) : 0,
+  };
+
+  if (selectorMatch[2] !== undefined) {
+    selector.major = parseInt(selectorMatch[2], 10);
+  }
+  if (selectorMatch[3] !== undefined) {
+    selector.minor = parseInt(selectorMatch[3], 10);
+  }
+
+  return selector;
+}
+
+/**
+ * Check whether a selector is the plain "latest" selector
+ */
+export function isPlainLatest(selector: TagSelector): boolean {
+  return (
+    selector.from === 'latest' &&
+    selector.offset === 0 &&
+    selector.major === undefined &&
+    selector.minor === undefined
+  );
+}
@@ -40,6 +40,23 @@ export interface ItemInfo {
   is_prerelease: boolean; // Whether release is a prerelease (releases only, false for tags)
 }
 
+/**
+ * Release summary returned when listing releases
+ */
+export interface ReleaseSummary {
+  name: string; // Release tag name
+  date: string; // Published (or created) date
+  is_prerelease?: boolean; // Platform prerelease flag, when the platform provides one
+}
+
+/**
+ * Commit summary returned when listing commits since a tag
+ */
+export interface CommitSummary {
+  sha: string; // Commit SHA
+  message: string; // Full commit message (subject and body)
+}
+
 /**
  * Tag information structure (deprecated - use ItemInfo)
  * @deprecated Use ItemInfo instead. Kept as alias for backward compatibility.
@@ -103,7 +120,12 @@ export interface PlatformAPI {
   /**
    * Get all releases with dates
    */
-  getAllReleases(): Promise<Array<{ name: string; date: string }>>;
+  getAllReleases(): Promise<ReleaseSummary[]>;
+
+  /**
+   * Get commits on the default branch (HEAD for local repositories) that are not reachable from a tag
+   */
+  getCommitsSince(tagName: string): Promise<CommitSummary[]>;
 }
 
 /**
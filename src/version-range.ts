@@ -0,0 +1,336 @@
+/**
+ * Version range utilities for constraining "latest" resolution
+ * Supports npm-style range syntax: comparators (<, <=, >, >=, =),
+ * caret (^1.4), tilde (~1.9), hyphen ranges (1.2 - 2.0), x-ranges (1.x, 1.*, 1)
+ * and || unions (">=2.0.0 <3.0.0 || ~1.9")
+ */
+
+import { SemverParts, parseSemver, compareSemverParts } from './semver';
+
+export type ComparatorOperator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * A single comparator such as ">=1.2.3"
+ */
+export interface Comparator {
+  operator: ComparatorOperator;
+  version: SemverParts;
+}
+
+/**
+ * Parsed range: a union (||) of comparator sets, each set being an intersection
+ * An empty comparator set matches any non-prerelease version
+ */
+export type VersionRange = Comparator[][];
+
+/**
+ * Partially specified version, e.g. "1", "1.4", "1.x", "*"
+ * Missing or wildcard components are undefined
+ */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease?: string;
+}
+
+/**
+ * Parse a partial version as used in ranges
+ * Accepts an optional "v" prefix and x/X/* wildcards
+ */
+function parsePartialVersion(input: string, constraint: string): PartialVersion {
+  const cleaned = input.replace(/^v/i, '');
+  const partialRegex =
+    /^(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*])(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?)?)?$/;
+  const match = cleaned.match(partialRegex);
+
+  if (!match) {
+    throw new Error(`Invalid version constraint "${constraint}": cannot parse version "${input}"`);
+  }
+
+  const toNumber = (value: string | undefined): number | undefined =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : parseInt(value, 10);
+
+  const major = toNumber(match[1]);
+  const minor = major === undefined ? undefined : toNumber(match[2]);
+  const patch = minor === undefined ? undefined : toNumber(match[3]);
+
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch === undefined ? undefined : match[4],
+  };
+}
+
+function version(major: number, minor: number, patch: number, prerelease?: string): SemverParts {
+  return prerelease ? { major, minor, patch, prerelease } : { major, minor, patch };
+}
+
+/**
+ * Lowest version that is still above every version in the given partial's line
+ * e.g. "1" → 2.0.0-0, "1.4" → 1.5.0-0
+ */
+function upperBound(partial: PartialVersion): SemverParts {
+  if (partial.minor === undefined) {
+    return version((partial.major as number) + 1, 0, 0, '0');
+  }
+  return version(partial.major as number, partial.minor + 1, 0, '0');
+}
+
+/**
+ * Desugar an x-range ("1.x", "1.4", "*") into comparators
+ */
+function xRange(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return [];
+  }
+  if (partial.patch !== undefined) {
+    return [
+      {
+        operator: '=',
+        version: version(partial.major, partial.minor as number, partial.patch, partial.prerelease),
+      },
+    ];
+  }
+  return [
+    { operator: '>=', version: version(partial.major, partial.minor ?? 0, 0) },
+    { operator: '<', version: upperBound(partial) },
+  ];
+}
+
+/**
+ * Desugar a tilde range: allows patch-level changes if minor is specified,
+ * minor-level changes otherwise
+ */
+function tildeRange(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return [];
+  }
+  return [
+    {
+      operator: '>=',
+      version: version(partial.major, partial.minor ?? 0, partial.patch ?? 0, partial.prerelease),
+    },
+    { operator: '<', version: upperBound(partial) },
+  ];
+}
+
+/**
+ * Desugar a caret range: allows changes that do not modify the left-most
+ * non-zero component
+ */
+function caretRange(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return [];
+  }
+  const major = partial.major;
+  const minor = partial.minor ?? 0;
+  const patch = partial.patch ?? 0;
+  const lower: Comparator = {
+    operator: '>=',
+    version: version(major, minor, patch, partial.prerelease),
+  };
+
+  let upper: SemverParts;
+  if (major > 0 || partial.minor === undefined) {
+    upper = version(major + 1, 0, 0, '0');
+  } else if (minor > 0 || partial.patch === undefined) {
+    upper = version(0, minor + 1, 0, '0');
+  } else {
+    upper = version(0, 0, patch + 1, '0');
+  }
+
+  return [lower, { operator: '<', version: upper }];
+}
+
+/**
+ * Desugar a primitive comparator with a possibly partial version
+ */
+function primitiveRange(operator: ComparatorOperator, partial: PartialVersion): Comparator[] {
+  if (operator === '=') {
+    return xRange(partial);
+  }
+
+  if (partial.major === undefined) {
+    // "<*" and ">*" can never match, ">=*" and "<=*" match everything
+    return operator === '<' || operator === '>'
+      ? [{ operator: '<', version: version(0, 0, 0, '0') }]
+      : [];
+  }
+
+  if (partial.patch !== undefined) {
+    return [
+      {
+        operator,
+        version: version(partial.major, partial.minor as number, partial.patch, partial.prerelease),
+      },
+    ];
+  }
+
+  switch (operator) {
+    case '>':
+      // ">1" → ">=2.0.0", ">1.4" → ">=1.5.0"
+      return [{ operator: '>=', version: withoutPrerelease(upperBound(partial)) }];
+    case '<=':
+      // "<=1" → "<2.0.0-0", "<=1.4" → "<1.5.0-0"
+      return [{ operator: '<', version: upperBound(partial) }];
+    case '<':
+      return [{ operator: '<', version: version(partial.major, partial.minor ?? 0, 0, '0') }];
+    case '>=':
+    default:
+      return [{ operator: '>=', version: version(partial.major, partial.minor ?? 0, 0) }];
+  }
+}
+
+function withoutPrerelease(parts: SemverParts): SemverParts {
+  return version(parts.major, parts.minor, parts.patch);
+}
+
+/**
+ * Desugar a hyphen range ("1.2 - 2.3.4")
+ */
+function hyphenRange(from: PartialVersion, to: PartialVersion): Comparator[] {
+  const comparators: Comparator[] = [];
+
+  if (from.major !== undefined) {
+    comparators.push({
+      operator: '>=',
+      version: version(from.major, from.minor ?? 0, from.patch ?? 0, from.prerelease),
+    });
+  }
+
+  if (to.major !== undefined) {
+    if (to.patch !== undefined) {
+      comparators.push({
+        operator: '<=',
+        version: version(to.major, to.minor as number, to.patch, to.prerelease),
+      });
+    } else {
+      comparators.push({ operator: '<', version: upperBound(to) });
+    }
+  }
+
+  return comparators;
+}
+
+/**
+ * Parse one comparator set (the part between || separators)
+ */
+function parseComparatorSet(input: string, constraint: string): Comparator[] {
+  const trimmed = input.trim();
+
+  const hyphenMatch = trimmed.match(/^(\S+)\s+-\s+(\S+)$/);
+  if (hyphenMatch) {
+    return hyphenRange(
+      parsePartialVersion(hyphenMatch[1], constraint),
+      parsePartialVersion(hyphenMatch[2], constraint)
+    );
+  }
+
+  // Allow whitespace between an operator and its version (">= 1.2.3")
+  const tokens = trimmed
+    .replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1')
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+
+  const comparators: Comparator[] = [];
+  for (const token of tokens) {
+    const tokenMatch = token.match(/^(<=|>=|<|>|=|\^|~>?)?(.+)$/);
+    if (!tokenMatch) {
+      throw new Error(`Invalid version constraint "${constraint}": cannot parse "${token}"`);
+    }
+    const operator = tokenMatch[1] || '=';
+    const partial = parsePartialVersion(tokenMatch[2], constraint);
+
+    if (operator === '^') {
+      comparators.push(...caretRange(partial));
+    } else if (operator === '~' || operator === '~>') {
+      comparators.push(...tildeRange(partial));
+    } else {
+      comparators.push(...primitiveRange(operator as ComparatorOperator, partial));
+    }
+  }
+
+  return comparators;
+}
+
+/**
+ * Parse an npm-style version range
+ *
+ * @param constraint - Range string, e.g. "^1.4" or ">=2.0.0 <3.0.0 || ~1.9"
+ * @returns Parsed range (union of comparator sets)
+ * @throws Error if the range cannot be parsed
+ */
+export function parseVersionRange(constraint: string): VersionRange {
+  if (!constraint || constraint.trim() === '') {
+    throw new Error('Version constraint cannot be empty');
+  }
+  return constraint.split('||').map((set) => parseComparatorSet(set, constraint));
+}
+
+function testComparator(parts: SemverParts, comparator: Comparator): boolean {
+  const comparison = compareSemverParts(parts, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    case '=':
+    default:
+      return comparison === 0;
+  }
+}
+
+/**
+ * Test a version against one comparator set
+ * Like npm, a prerelease version only satisfies a set if one of its comparators
+ * names a prerelease on the same major.minor.patch
+ */
+function testComparatorSet(parts: SemverParts, comparators: Comparator[]): boolean {
+  if (!comparators.every((comparator) => testComparator(parts, comparator))) {
+    return false;
+  }
+
+  if (!parts.prerelease) {
+    return true;
+  }
+
+  return comparators.some(
+    (comparator) =>
+      comparator.version.prerelease !== undefined &&
+      comparator.version.major === parts.major &&
+      comparator.version.minor === parts.minor &&
+      comparator.version.patch === parts.patch
+  );
+}
+
+/**
+ * Check whether a tag name satisfies a version range
+ * Tags that are not valid semver never satisfy a range
+ */
+export function satisfiesRange(tagName: string, range: VersionRange | string): boolean {
+  const parts = parseSemver(tagName);
+  if (!parts) {
+    return false;
+  }
+
+  const parsedRange = typeof range === 'string' ? parseVersionRange(range) : range;
+  return parsedRange.some((comparators) => testComparatorSet(parts, comparators));
+}
+
+/**
+ * Filter tag names to those satisfying a version range
+ *
+ * @param tagNames - Array of tag names to filter
+ * @param constraint - The version range to satisfy
+ * @returns Array of tag names satisfying the range
+ */
+export function filterTagsByConstraint(tagNames: string[], constraint: string): string[] {
+  const range = parseVersionRange(constraint);
+  return tagNames.filter((tagName) => satisfiesRange(tagName, range));
+}